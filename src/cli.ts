@@ -1,12 +1,45 @@
 import { runMain } from 'citty';
 import ask from './commands/ask.ts';
 import cfg from './commands/cfg.ts';
+import check from './commands/check.ts';
+import compact from './commands/compact.ts';
+import continueCommand from './commands/continue.ts';
+import exportCommand from './commands/export.ts';
+import fork from './commands/fork.ts';
 import help from './commands/help.ts';
+import importCommand from './commands/import.ts';
 import init from './commands/init.ts';
+import ls from './commands/ls.ts';
+import newCommand from './commands/new.ts';
+import pick from './commands/pick.ts';
 import refresh from './commands/refresh.ts';
+import retry from './commands/retry.ts';
+import search from './commands/search.ts';
+import usage from './commands/usage.ts';
+import use from './commands/use.ts';
 import version, { showVersion } from './commands/version.ts';
 
-const SUBCOMMANDS = ['chat', 'init', 'cfg', 'version', 'refresh', 'help'];
+const SUBCOMMANDS = [
+  'chat',
+  'continue',
+  'retry',
+  'pick',
+  'fork',
+  'compact',
+  'init',
+  'new',
+  'ls',
+  'use',
+  'cfg',
+  'version',
+  'refresh',
+  'check',
+  'export',
+  'import',
+  'search',
+  'usage',
+  'help',
+];
 
 const args = Bun.argv.slice(2);
 const firstArg = args[0];
@@ -37,10 +70,23 @@ await runMain(
     },
     subCommands: {
       chat: ask,
+      continue: continueCommand,
+      retry,
+      pick,
+      fork,
+      compact,
       init,
+      new: newCommand,
+      ls,
+      use,
       cfg,
       version,
       refresh,
+      check,
+      export: exportCommand,
+      import: importCommand,
+      search,
+      usage,
       help,
     },
   },
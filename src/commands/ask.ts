@@ -1,18 +1,21 @@
 import { defineCommand } from 'citty';
-import { findProfile, streamCompletion } from '../lib/bedrock.ts';
-import { extractRegion } from '../lib/cache.ts';
-import { loadConfig } from '../lib/config.ts';
-import { exitWithError, requireFile } from '../lib/errors.ts';
+import { compactionPlan, compactSession, DEFAULT_KEEP } from '../lib/compact.ts';
+import { applyOverrides, connectModel, streamAnswer } from '../lib/completion.ts';
+import { applySessionSettings, loadConfig } from '../lib/config.ts';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { reportIgnored } from '../lib/ignore.ts';
 import { output } from '../lib/output.ts';
 import {
   expandAndSaveSession,
+  findInterruptedTurn,
   readSession,
   SessionWriter,
   turnsToMessages,
   validateSession,
 } from '../lib/session.ts';
 import { estimateTokens } from '../lib/tokens.ts';
-import type { ModelType } from '../types.ts';
+import { fitToContext } from '../lib/trim.ts';
+import { DEFAULT_SESSION, resolveSession } from '../lib/workspace.ts';
 
 export default defineCommand({
   meta: {
@@ -22,114 +25,148 @@ export default defineCommand({
   args: {
     session: {
       type: 'positional',
-      description: 'Session file to process (default: session.md)',
+      description: 'Session file to process (default: the current session)',
       required: false,
     },
     model: {
       type: 'string',
-      description: 'Model to use (opus/sonnet/haiku)',
+      description: 'Model to use (opus/sonnet/haiku, or a model name for openai)',
       alias: 'm',
       required: false,
     },
+    provider: {
+      type: 'string',
+      description: 'Provider to use (bedrock/anthropic/openai)',
+      alias: 'p',
+      required: false,
+    },
+    'show-ignored': {
+      type: 'boolean',
+      description: 'List files and directories skipped because of ignore files',
+      required: false,
+    },
   },
   async run({ args }) {
     try {
-      const sessionPath = (args.session as string | undefined) ?? 'session.md';
+      const sessionPath = await resolveSession(args.session as string | undefined);
 
       await requireFile(
         sessionPath,
-        sessionPath === 'session.md'
-          ? "Run 'ask init' to create session.md"
+        sessionPath === DEFAULT_SESSION
+          ? "Run 'ask init' to create session.md, or 'ask new <name>' for a named session"
           : `File not found: ${sessionPath}`,
       );
 
-      const config = await loadConfig();
-      const modelType = (args.model as ModelType) || config.model;
-
       let session = await readSession(sessionPath);
 
-      const { expanded, fileCount } = await expandAndSaveSession(sessionPath, session);
+      // Precedence: CLI flags, then session front matter, then global config
+      const config = applyOverrides(applySessionSettings(await loadConfig(), session.frontMatter), {
+        model: args.model as string | undefined,
+        provider: args.provider as string | undefined,
+      });
+
+      const { expanded, fileCount, ignored } = await expandAndSaveSession(
+        sessionPath,
+        session,
+        config,
+      );
       if (expanded) {
         output.success(`Expanded ${fileCount} file${fileCount !== 1 ? 's' : ''}`);
         session = await readSession(sessionPath);
       }
+      reportIgnored(ignored, Boolean(args['show-ignored']), 'ask refresh');
+
+      const interrupted = findInterruptedTurn(session);
+      if (interrupted) {
+        throw new AskError(
+          `Turn ${interrupted.number} was interrupted`,
+          "Run 'ask continue' to finish it, or write your next question",
+        );
+      }
 
       validateSession(session);
 
-      const profile = await findProfile(modelType);
-      const region = extractRegion(profile);
+      const { provider, model, maxTokens } = await connectModel(config);
+
+      let messages = await turnsToMessages(session.turns, { cache: config.cache });
+      const system = session.system ?? config.system;
+      const systemTokens = Math.ceil((system?.length ?? 0) / 4);
+      let inputTokens = estimateTokens(messages) + systemTokens;
+
+      if (
+        config.autoCompact &&
+        inputTokens > config.autoCompact &&
+        compactionPlan(session.turns, DEFAULT_KEEP)
+      ) {
+        output.info(
+          output.dim(
+            `Input is ${output.number(inputTokens)} tokens, over autoCompact (${output.number(config.autoCompact)})`,
+          ),
+        );
+
+        const { archivePath, summarized } = await compactSession({
+          sessionPath,
+          session,
+          keep: DEFAULT_KEEP,
+          provider,
+          model,
+          config,
+          maxTokens,
+        });
+        output.success(
+          `Compacted ${summarized} turns ${output.dim(`(original in ${archivePath})`)}`,
+        );
 
-      // Model and input info
-      output.meta([['Model', `${output.modelName(profile.modelId)} ${output.dim(`(${region})`)}`]]);
+        session = await readSession(sessionPath);
+        messages = await turnsToMessages(session.turns, { cache: config.cache });
+        inputTokens = estimateTokens(messages) + systemTokens;
+      }
+
+      const fitted = fitToContext(messages, session.turns, {
+        modelId: model.modelId,
+        config,
+        maxTokens,
+        systemTokens,
+      });
+      messages = fitted.messages;
+      inputTokens = fitted.tokens + systemTokens;
 
-      const messages = turnsToMessages(session.turns);
-      const inputTokens = estimateTokens(messages);
       const turnLabel = session.turns.length === 1 ? 'turn' : 'turns';
 
       output.meta([
         ['Input', `${output.number(inputTokens)} tokens`],
         ['Turns', `${session.turns.length} ${turnLabel}`],
+        ...(config.thinking
+          ? [['Thinking', `${output.number(config.thinking)} tokens`] as [string, string]]
+          : []),
       ]);
 
       if (inputTokens > 150000) {
         output.blank();
         output.warning('Large input may be slow or hit limits');
+        output.hint("Run 'ask compact' to summarize older turns");
       }
 
       const nextTurnNumber = session.turns[session.turns.length - 1]!.number + 1;
       const writer = await SessionWriter.create(sessionPath, nextTurnNumber);
 
-      let finalTokens = 0;
-      let interrupted = false;
-
-      const abortController = new AbortController();
-
-      process.on('SIGINT', () => {
-        if (!interrupted) {
-          interrupted = true;
-          abortController.abort();
-        }
+      await streamAnswer({
+        provider,
+        model,
+        config,
+        sessionPath,
+        inputTokens,
+        writer,
+        request: {
+          model: model.id,
+          messages,
+          maxTokens,
+          temperature: config.temperature,
+          system,
+          thinking: config.thinking,
+          cache: config.cache,
+        },
       });
-
-      output.blank();
-      output.write(output.dim('Streaming... '));
-
-      for await (const event of streamCompletion(
-        profile.arn,
-        messages,
-        config.maxTokens ?? 32000,
-        config.temperature,
-        abortController.signal,
-      )) {
-        if (interrupted) break;
-
-        switch (event.type) {
-          case 'chunk':
-            await writer.write(event.text);
-            finalTokens = event.tokens;
-            output.progress(
-              `${output.dim('Streaming')} ${output.cyan(output.number(finalTokens))} ${output.dim('tokens')}`,
-            );
-            break;
-          case 'error':
-            if (!interrupted) {
-              throw event.error;
-            }
-            break;
-          case 'end':
-            finalTokens = event.totalTokens;
-            break;
-        }
-      }
-
-      await writer.end(interrupted);
-
-      output.clearLine();
-      if (interrupted) {
-        output.warning(`Interrupted at ${output.cyan(output.number(finalTokens))} tokens`);
-      } else {
-        output.success(`Done ${output.dim('·')} ${output.cyan(output.number(finalTokens))} tokens`);
-      }
     } catch (error) {
       exitWithError(error);
     }
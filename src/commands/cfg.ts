@@ -10,7 +10,8 @@ import {
 import { AskError, exitWithError } from '../lib/errors.ts';
 import { isValidModel } from '../lib/models.ts';
 import { output } from '../lib/output.ts';
-import type { ModelType } from '../types.ts';
+import { isValidProvider, PROVIDERS } from '../lib/provider.ts';
+import { isValidTrim, TRIM_OPTIONS } from '../lib/trim.ts';
 
 export default defineCommand({
   meta: {
@@ -42,6 +43,14 @@ export default defineCommand({
 
         output.info(output.dim(`Config: ${configPath}`));
 
+        output.field('provider', config.provider);
+
+        if (config.endpoint) {
+          output.field('endpoint', config.endpoint);
+        } else {
+          output.fieldDim('endpoint', '(provider default)');
+        }
+
         output.field('model', config.model);
         output.field('temperature', String(config.temperature));
 
@@ -57,7 +66,37 @@ export default defineCommand({
           output.fieldDim('region', '(no preference)');
         }
 
+        if (config.thinking) {
+          output.field('thinking', `${config.thinking} tokens`);
+        } else {
+          output.fieldDim('thinking', '(off)');
+        }
+
+        if (config.system) {
+          output.field('system', config.system);
+        } else {
+          output.fieldDim('system', '(none)');
+        }
+
+        output.field('cache', config.cache ? 'on' : 'off');
+        output.field('continuations', String(config.continuations));
+
+        if (config.autoCompact) {
+          output.field('autoCompact', `${config.autoCompact} tokens`);
+        } else {
+          output.fieldDim('autoCompact', '(off)');
+        }
+
+        output.field('trim', config.trim);
+
+        if (config.contextWindow) {
+          output.field('contextWindow', `${config.contextWindow} tokens`);
+        } else {
+          output.fieldDim('contextWindow', '(from model)');
+        }
+
         output.field('filter', config.filter ? 'on' : 'off');
+        output.field('ignore', config.ignoreFiles ? 'on' : 'off');
         output.field('web', config.web ? 'on' : 'off');
         output.field('exclude', `${config.exclude.length} patterns`);
 
@@ -76,11 +115,33 @@ export default defineCommand({
       }
 
       switch (action) {
+        case 'provider': {
+          if (!isValidProvider(value)) {
+            throw new AskError(
+              `Invalid provider: ${value}`,
+              `Valid options: ${PROVIDERS.join(', ')}`,
+            );
+          }
+          await updateConfig('provider', value);
+          output.success(`Provider set to ${value}`);
+          break;
+        }
+
+        case 'endpoint': {
+          if (!URL.canParse(value)) {
+            throw new AskError('Invalid endpoint URL', 'Example: http://localhost:8080/v1');
+          }
+          await updateConfig('endpoint', value);
+          output.success(`Endpoint set to ${value}`);
+          break;
+        }
+
         case 'model': {
-          if (!isValidModel(value)) {
+          const { provider } = await loadConfig();
+          if (provider === 'bedrock' && !isValidModel(value)) {
             throw new AskError(`Invalid model: ${value}`, 'Valid options: opus, sonnet, haiku');
           }
-          await updateConfig('model', value as ModelType);
+          await updateConfig('model', value);
           output.success(`Model set to ${value}`);
           break;
         }
@@ -115,6 +176,92 @@ export default defineCommand({
           break;
         }
 
+        case 'thinking': {
+          if (value.toLowerCase() === 'off') {
+            await updateConfig('thinking', undefined);
+            output.success('Extended thinking disabled');
+            break;
+          }
+          const budget = parseInt(value, 10);
+          if (Number.isNaN(budget) || budget < 1024) {
+            throw new AskError('Invalid thinking budget', 'Must be at least 1024 tokens, or off');
+          }
+          await updateConfig('thinking', budget);
+          output.success(`Thinking budget set to ${budget}`);
+          break;
+        }
+
+        case 'system': {
+          const system = value.toLowerCase() === 'off' ? undefined : value;
+          await updateConfig('system', system);
+          output.success(system ? 'System prompt set' : 'System prompt cleared');
+          break;
+        }
+
+        case 'cache': {
+          const enable = parseBoolean(value);
+          if (enable === null) {
+            throw new AskError('Invalid value', 'Use: on/off, true/false, yes/no');
+          }
+          await updateConfig('cache', enable);
+          output.success(`Prompt caching ${enable ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'continuations': {
+          const count = parseInt(value, 10);
+          if (Number.isNaN(count) || count < 0 || count > 10) {
+            throw new AskError('Invalid continuation count', 'Must be between 0 and 10');
+          }
+          await updateConfig('continuations', count);
+          output.success(`Continuations set to ${count}`);
+          break;
+        }
+
+        case 'autoCompact':
+        case 'compact': {
+          if (value.toLowerCase() === 'off') {
+            await updateConfig('autoCompact', undefined);
+            output.success('Automatic compaction disabled');
+            break;
+          }
+          const threshold = parseInt(value, 10);
+          if (Number.isNaN(threshold) || threshold <= 0) {
+            throw new AskError('Invalid threshold', 'Must be a positive token count, or off');
+          }
+          await updateConfig('autoCompact', threshold);
+          output.success(`Sessions compact above ${threshold} input tokens`);
+          break;
+        }
+
+        case 'trim': {
+          if (!isValidTrim(value)) {
+            throw new AskError(
+              `Invalid trim strategy: ${value}`,
+              `Valid options: ${TRIM_OPTIONS.join(', ')}`,
+            );
+          }
+          await updateConfig('trim', value);
+          output.success(`Trim strategy set to ${value}`);
+          break;
+        }
+
+        case 'contextWindow':
+        case 'context': {
+          if (value.toLowerCase() === 'auto') {
+            await updateConfig('contextWindow', undefined);
+            output.success('Context window taken from the model');
+            break;
+          }
+          const size = parseInt(value, 10);
+          if (Number.isNaN(size) || size <= 0) {
+            throw new AskError('Invalid context window', 'Must be a positive token count, or auto');
+          }
+          await updateConfig('contextWindow', size);
+          output.success(`Context window set to ${size} tokens`);
+          break;
+        }
+
         case 'filter': {
           const enable = parseBoolean(value);
           if (enable === null) {
@@ -125,6 +272,16 @@ export default defineCommand({
           break;
         }
 
+        case 'ignore': {
+          const enable = parseBoolean(value);
+          if (enable === null) {
+            throw new AskError('Invalid value', 'Use: on/off, true/false, yes/no');
+          }
+          await updateConfig('ignoreFiles', enable);
+          output.success(`Ignore files ${enable ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         case 'web': {
           const enable = parseBoolean(value);
           if (enable === null) {
@@ -138,7 +295,7 @@ export default defineCommand({
         default:
           throw new AskError(
             `Unknown config field: ${action}`,
-            'Valid fields: model, temperature, tokens, region, filter, web',
+            'Valid fields: provider, endpoint, model, temperature, tokens, region, thinking, system, cache, continuations, compact, trim, context, filter, ignore, web',
           );
       }
     } catch (error) {
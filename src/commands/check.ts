@@ -0,0 +1,72 @@
+import { defineCommand } from 'citty';
+import { writeSession } from '../lib/alternates.ts';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { checkSession, fixSession, type Problem } from '../lib/lint.ts';
+import { output } from '../lib/output.ts';
+import { resolveSession } from '../lib/workspace.ts';
+
+function listProblems(sessionPath: string, problems: Problem[]): void {
+  for (const problem of problems) {
+    output.info(`${output.dim(`${sessionPath}:${problem.line}`)}  ${problem.message}`);
+  }
+  output.blank();
+}
+
+export default defineCommand({
+  meta: {
+    name: 'check',
+    description: 'Report structural problems in a session file',
+  },
+  args: {
+    session: {
+      type: 'positional',
+      description: 'Session file to check (default: the current session)',
+      required: false,
+    },
+    fix: {
+      type: 'boolean',
+      description: 'Renumber turns, close dangling blocks and merge same-role turns',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const sessionPath = await resolveSession(args.session as string | undefined);
+
+      await requireFile(sessionPath, `File not found: ${sessionPath}`);
+
+      const content = await Bun.file(sessionPath).text();
+      const problems = checkSession(content);
+
+      if (problems.length === 0) {
+        output.success(`No problems found in ${sessionPath}`);
+        return;
+      }
+
+      const count = (n: number) => `${n} problem${n !== 1 ? 's' : ''}`;
+
+      if (!args.fix) {
+        listProblems(sessionPath, problems);
+        throw new AskError(
+          `Found ${count(problems.length)} in ${sessionPath}`,
+          "Run 'ask check --fix' to repair them",
+        );
+      }
+
+      const fixed = fixSession(content);
+      const remaining = checkSession(fixed);
+
+      await writeSession(sessionPath, fixed);
+
+      output.success(`Repaired ${sessionPath}`);
+
+      if (remaining.length > 0) {
+        output.blank();
+        listProblems(sessionPath, remaining);
+        throw new AskError(`${count(remaining.length)} left to fix by hand`);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
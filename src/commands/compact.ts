@@ -0,0 +1,75 @@
+import { defineCommand } from 'citty';
+import { compactSession, DEFAULT_KEEP } from '../lib/compact.ts';
+import { applyOverrides, connectModel } from '../lib/completion.ts';
+import { applySessionSettings, loadConfig } from '../lib/config.ts';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import { readSession, turnsToMessages } from '../lib/session.ts';
+import { estimateTokens } from '../lib/tokens.ts';
+import { resolveSession } from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'compact',
+    description: 'Summarize older turns to shrink a long session',
+  },
+  args: {
+    session: {
+      type: 'positional',
+      description: 'Session file to compact (default: the current session)',
+      required: false,
+    },
+    keep: {
+      type: 'string',
+      description: `Recent turns to keep as they are (default: ${DEFAULT_KEEP})`,
+      alias: 'k',
+      required: false,
+    },
+    model: {
+      type: 'string',
+      description: 'Model to write the summary',
+      alias: 'm',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const sessionPath = await resolveSession(args.session as string | undefined);
+      await requireFile(sessionPath, `File not found: ${sessionPath}`);
+
+      const keepArg = args.keep as string | undefined;
+      const keep = keepArg === undefined ? DEFAULT_KEEP : parseInt(keepArg, 10);
+      if (Number.isNaN(keep) || keep < 1) {
+        throw new AskError('Invalid --keep', 'Must be at least 1');
+      }
+
+      const session = await readSession(sessionPath);
+      const config = applyOverrides(applySessionSettings(await loadConfig(), session.frontMatter), {
+        model: args.model as string | undefined,
+      });
+
+      const { provider, model, maxTokens } = await connectModel(config);
+
+      const before = estimateTokens(await turnsToMessages(session.turns));
+
+      const { archivePath, summarized } = await compactSession({
+        sessionPath,
+        session,
+        keep,
+        provider,
+        model,
+        config,
+        maxTokens,
+      });
+
+      const after = estimateTokens(await turnsToMessages((await readSession(sessionPath)).turns));
+
+      output.success(
+        `Compacted ${summarized} turns ${output.dim('·')} ${output.number(before)} → ${output.number(after)} tokens`,
+      );
+      output.hint(`Original saved to ${archivePath}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
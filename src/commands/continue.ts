@@ -0,0 +1,114 @@
+import { defineCommand } from 'citty';
+import { applyOverrides, connectModel, streamAnswer } from '../lib/completion.ts';
+import { applySessionSettings, loadConfig } from '../lib/config.ts';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import {
+  findInterruptedTurn,
+  INTERRUPTED_MARKER,
+  readSession,
+  SessionWriter,
+  turnsToMessages,
+} from '../lib/session.ts';
+import { fitToContext } from '../lib/trim.ts';
+import { resolveSession } from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'continue',
+    description: 'Finish an interrupted answer',
+  },
+  args: {
+    session: {
+      type: 'positional',
+      description: 'Session file to continue (default: the current session)',
+      required: false,
+    },
+    model: {
+      type: 'string',
+      description: 'Model to use (opus/sonnet/haiku, or a model name for openai)',
+      alias: 'm',
+      required: false,
+    },
+    provider: {
+      type: 'string',
+      description: 'Provider to use (bedrock/anthropic/openai)',
+      alias: 'p',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const sessionPath = await resolveSession(args.session as string | undefined);
+
+      await requireFile(sessionPath, `File not found: ${sessionPath}`);
+
+      const session = await readSession(sessionPath);
+
+      const turn = findInterruptedTurn(session);
+      if (!turn) {
+        throw new AskError(
+          'No interrupted answer to continue',
+          'Only the last AI turn can be continued, before a new question is added',
+        );
+      }
+
+      const config = applyOverrides(applySessionSettings(await loadConfig(), session.frontMatter), {
+        model: args.model as string | undefined,
+        provider: args.provider as string | undefined,
+      });
+
+      const { provider, model, maxTokens } = await connectModel(config);
+
+      // These servers answer a trailing assistant message anew, so the
+      // restarted answer would be spliced onto the partial one
+      if (provider.name === 'openai') {
+        throw new AskError(
+          "Interrupted answers can't be continued with the openai provider",
+          "Run 'ask retry' for a new answer",
+        );
+      }
+
+      const history = session.turns.slice(0, session.turns.indexOf(turn));
+      const system = session.system ?? config.system;
+      const prefill = turn.content.slice(0, -INTERRUPTED_MARKER.length);
+
+      // The partial answer is sent too, so it counts against the window
+      const systemTokens = Math.ceil((system?.length ?? 0) / 4 + prefill.length / 4);
+
+      const { messages, tokens } = fitToContext(
+        await turnsToMessages(history, { cache: config.cache }),
+        history,
+        { modelId: model.modelId, config, maxTokens, systemTokens },
+      );
+      const inputTokens = tokens + systemTokens;
+
+      output.meta([
+        ['Input', `${output.number(inputTokens)} tokens`],
+        ['Resuming', `turn ${turn.number}`],
+      ]);
+
+      const writer = await SessionWriter.resume(sessionPath, turn.number);
+
+      await streamAnswer({
+        provider,
+        model,
+        config,
+        sessionPath,
+        inputTokens,
+        writer,
+        prefill,
+        request: {
+          model: model.id,
+          messages,
+          maxTokens,
+          temperature: config.temperature,
+          system,
+          cache: config.cache,
+        },
+      });
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
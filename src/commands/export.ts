@@ -0,0 +1,75 @@
+import * as path from 'node:path';
+import { defineCommand } from 'citty';
+import { applySessionSettings, loadConfig } from '../lib/config.ts';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { EXPORT_FORMATS, exportSession, isValidExportFormat } from '../lib/export.ts';
+import { output } from '../lib/output.ts';
+import { readSession } from '../lib/session.ts';
+import { resolveSession } from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'export',
+    description: 'Convert a session to JSON, HTML or an API request body',
+  },
+  args: {
+    session: {
+      type: 'positional',
+      description: 'Session file to export (default: the current session)',
+      required: false,
+    },
+    format: {
+      type: 'string',
+      description: 'json, jsonl, html, anthropic or openai (default: json)',
+      alias: 'f',
+      required: false,
+    },
+    model: {
+      type: 'string',
+      description: 'Model ID for the anthropic and openai formats (default: configured model)',
+      alias: 'm',
+      required: false,
+    },
+    output: {
+      type: 'string',
+      description: 'File to write (default: standard output)',
+      alias: 'o',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const sessionPath = await resolveSession(args.session as string | undefined);
+      const format = (args.format as string | undefined) ?? 'json';
+
+      if (!isValidExportFormat(format)) {
+        throw new AskError(
+          `Invalid format: ${format}`,
+          `Valid options: ${EXPORT_FORMATS.join(', ')}`,
+        );
+      }
+
+      await requireFile(sessionPath, `File not found: ${sessionPath}`);
+
+      const session = await readSession(sessionPath);
+      const config = applySessionSettings(await loadConfig(), session.frontMatter);
+
+      const exported = await exportSession(session, format, {
+        config,
+        title: path.basename(sessionPath),
+        model: args.model as string | undefined,
+      });
+
+      const outputPath = args.output as string | undefined;
+      if (!outputPath) {
+        process.stdout.write(exported);
+        return;
+      }
+
+      await Bun.write(outputPath, exported);
+      output.success(`Exported ${sessionPath} to ${outputPath}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
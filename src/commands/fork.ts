@@ -0,0 +1,63 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { defineCommand } from 'citty';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { forkPathFor, forkSession } from '../lib/fork.ts';
+import { output } from '../lib/output.ts';
+import { resolveSession } from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'fork',
+    description: 'Start a new session from the turns up to a given turn',
+  },
+  args: {
+    turn: {
+      type: 'positional',
+      description: 'Last turn to keep',
+      required: true,
+    },
+    target: {
+      type: 'positional',
+      description: 'New session file (default: <session>-fork-<turn>.md)',
+      required: false,
+    },
+    session: {
+      type: 'string',
+      description: 'Session file to fork (default: the current session)',
+      alias: 's',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const turnNumber = parseInt(args.turn as string, 10);
+      if (Number.isNaN(turnNumber) || turnNumber < 1) {
+        throw new AskError('Invalid turn number', 'Usage: ask fork <turn> [new-file]');
+      }
+
+      const sessionPath = await resolveSession(args.session as string | undefined);
+      await requireFile(sessionPath, `File not found: ${sessionPath}`);
+
+      const forkPath = (args.target as string | undefined) ?? forkPathFor(sessionPath, turnNumber);
+
+      if (await Bun.file(forkPath).exists()) {
+        throw new AskError(`${forkPath} already exists`, 'Choose another name for the fork');
+      }
+
+      const content = await Bun.file(sessionPath).text();
+      const forked = forkSession(content, turnNumber, sessionPath, forkPath);
+
+      const dir = path.dirname(forkPath);
+      if (dir && dir !== '.') {
+        await fs.mkdir(dir, { recursive: true });
+      }
+
+      await Bun.write(forkPath, forked);
+
+      output.success(`Forked ${sessionPath} at turn ${turnNumber} into ${forkPath}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
@@ -22,8 +22,83 @@ const COMMANDS: Record<string, CommandHelp> = {
         required: false,
       },
     ],
-    options: [{ name: 'model', alias: 'm', description: 'Model to use (opus/sonnet/haiku)' }],
-    examples: ['ask', 'ask session.md', 'ask chat myfile.md -m sonnet'],
+    options: [
+      { name: 'model', alias: 'm', description: 'Model to use (opus/sonnet/haiku)' },
+      { name: 'provider', alias: 'p', description: 'Provider (bedrock/anthropic/openai)' },
+    ],
+    examples: ['ask', 'ask session.md', 'ask chat myfile.md -m sonnet', 'ask -p openai'],
+  },
+  continue: {
+    name: 'continue',
+    description: 'Finish an interrupted answer in the same turn',
+    usage: 'ask continue [session] [options]',
+    args: [
+      {
+        name: 'session',
+        description: 'Session file to continue',
+        required: false,
+      },
+    ],
+    options: [
+      { name: 'model', alias: 'm', description: 'Model to use (opus/sonnet/haiku)' },
+      { name: 'provider', alias: 'p', description: 'Provider (bedrock/anthropic/openai)' },
+    ],
+    examples: ['ask continue', 'ask continue notes.md'],
+  },
+  retry: {
+    name: 'retry',
+    description: 'Regenerate the last answer, keeping the current one as an alternate',
+    usage: 'ask retry [session] [options]',
+    args: [
+      {
+        name: 'session',
+        description: 'Session file to retry',
+        required: false,
+      },
+    ],
+    options: [
+      { name: 'model', alias: 'm', description: 'Model to use (opus/sonnet/haiku)' },
+      { name: 'temperature', alias: 't', description: 'Temperature for this answer (0.0-1.0)' },
+      { name: 'provider', alias: 'p', description: 'Provider (bedrock/anthropic/openai)' },
+    ],
+    examples: ['ask retry', 'ask retry -m sonnet', 'ask retry -t 0.3'],
+  },
+  pick: {
+    name: 'pick',
+    description: 'Make an alternate the canonical answer',
+    usage: 'ask pick <n> [session] [options]',
+    args: [
+      { name: 'n', description: 'Alternate number to promote', required: true },
+      { name: 'session', description: 'Session file', required: false },
+    ],
+    options: [{ name: 'turn', description: 'AI turn to pick in (default: the last one)' }],
+    examples: ['ask pick 1', 'ask pick 2 --turn 4'],
+  },
+  fork: {
+    name: 'fork',
+    description: 'Start a new session from the turns up to a given turn',
+    usage: 'ask fork <turn> [new-file] [options]',
+    args: [
+      { name: 'turn', description: 'Last turn to keep', required: true },
+      {
+        name: 'new-file',
+        description: 'New session file (default: <session>-fork-<turn>.md)',
+        required: false,
+      },
+    ],
+    options: [{ name: 'session', alias: 's', description: 'Session file to fork' }],
+    examples: ['ask fork 4', 'ask fork 4 option-b.md', 'ask fork 2 -s notes.md'],
+  },
+  compact: {
+    name: 'compact',
+    description: 'Summarize older turns to shrink a long session',
+    usage: 'ask compact [session] [options]',
+    args: [{ name: 'session', description: 'Session file to compact', required: false }],
+    options: [
+      { name: 'keep', alias: 'k', description: 'Recent turns to keep as they are (default: 4)' },
+      { name: 'model', alias: 'm', description: 'Model to write the summary' },
+    ],
+    examples: ['ask compact', 'ask compact --keep 6', 'ask compact notes.md -m haiku'],
   },
   init: {
     name: 'init',
@@ -38,6 +113,38 @@ const COMMANDS: Record<string, CommandHelp> = {
     ],
     examples: ['ask init', 'ask init session-2.md', 'ask init notes/research.md'],
   },
+  new: {
+    name: 'new',
+    description: 'Create a named session in the workspace and make it current',
+    usage: 'ask new <name>',
+    args: [
+      {
+        name: 'name',
+        description: 'Session name, stored as .ask/sessions/<name>.md',
+        required: true,
+      },
+    ],
+    examples: ['ask new auth-bug', 'ask new refactor-2'],
+  },
+  ls: {
+    name: 'ls',
+    description: 'List workspace sessions with their title, size and model',
+    usage: 'ask ls',
+    examples: ['ask ls'],
+  },
+  use: {
+    name: 'use',
+    description: 'Switch the current session',
+    usage: 'ask use <name>',
+    args: [
+      {
+        name: 'name',
+        description: 'Name of a workspace session',
+        required: true,
+      },
+    ],
+    examples: ['ask use auth-bug'],
+  },
   cfg: {
     name: 'cfg',
     description: 'View or update configuration',
@@ -49,6 +156,7 @@ const COMMANDS: Record<string, CommandHelp> = {
     examples: [
       'ask cfg',
       'ask cfg model sonnet',
+      'ask cfg provider anthropic',
       'ask cfg temperature 0.7',
       'ask cfg web off',
       'ask cfg reset',
@@ -57,7 +165,7 @@ const COMMANDS: Record<string, CommandHelp> = {
   refresh: {
     name: 'refresh',
     description: 'Refresh all expanded file, directory, and URL references',
-    usage: 'ask refresh [session]',
+    usage: 'ask refresh [session] [options]',
     args: [
       {
         name: 'session',
@@ -65,7 +173,114 @@ const COMMANDS: Record<string, CommandHelp> = {
         required: false,
       },
     ],
-    examples: ['ask refresh', 'ask refresh myfile.md'],
+    options: [
+      {
+        name: 'show-ignored',
+        description: 'List files and directories skipped because of ignore files',
+      },
+    ],
+    examples: ['ask refresh', 'ask refresh myfile.md', 'ask refresh --show-ignored'],
+  },
+  check: {
+    name: 'check',
+    description: 'Report structural problems in a session file',
+    usage: 'ask check [session] [--fix]',
+    args: [
+      {
+        name: 'session',
+        description: 'Session file to check',
+        required: false,
+      },
+    ],
+    options: [
+      {
+        name: 'fix',
+        description: 'Renumber turns, close dangling blocks and merge same-role turns',
+      },
+    ],
+    examples: ['ask check', 'ask check notes.md --fix'],
+  },
+  export: {
+    name: 'export',
+    description: 'Convert a session to JSON, HTML or an API request body',
+    usage: 'ask export [session] [options]',
+    args: [
+      {
+        name: 'session',
+        description: 'Session file to export',
+        required: false,
+      },
+    ],
+    options: [
+      {
+        name: 'format',
+        alias: 'f',
+        description: 'json (default), jsonl, html, anthropic or openai',
+      },
+      { name: 'model', alias: 'm', description: 'Model ID for the API request formats' },
+      { name: 'output', alias: 'o', description: 'File to write instead of standard output' },
+    ],
+    examples: [
+      'ask export -f html -o design.html',
+      'ask export notes.md -f jsonl >> evals.jsonl',
+      'ask export -f anthropic > request.json',
+    ],
+  },
+  import: {
+    name: 'import',
+    description: 'Create a session from a claude.ai, ChatGPT or API conversation export',
+    usage: 'ask import <file> [options]',
+    args: [
+      {
+        name: 'file',
+        description: 'conversations.json, a request body or a JSONL log',
+        required: true,
+      },
+    ],
+    options: [
+      {
+        name: 'conversation',
+        alias: 'c',
+        description: 'ID (or the start of one) of the conversation to import',
+      },
+      { name: 'output', alias: 'o', description: 'Session file to create' },
+    ],
+    examples: [
+      'ask import conversations.json',
+      'ask import conversations.json -c 3f2a -o auth.md',
+      'ask import request.json',
+    ],
+  },
+  search: {
+    name: 'search',
+    description: 'Search past conversations in this directory and the workspace',
+    usage: 'ask search <query> [options]',
+    args: [
+      {
+        name: 'query',
+        description: 'Words to find; a turn must contain all of them',
+        required: true,
+      },
+    ],
+    options: [
+      {
+        name: 'expanded',
+        alias: 'e',
+        description: 'Also search expanded files, directories and URLs',
+      },
+      { name: 'limit', alias: 'n', description: 'Maximum number of results (default: 20)' },
+    ],
+    examples: ['ask search retry backoff', 'ask search "connection pool" --expanded'],
+  },
+  usage: {
+    name: 'usage',
+    description: 'Summarize token usage and cost by day, session and model',
+    usage: 'ask usage [options]',
+    options: [
+      { name: 'by', description: 'Group by day, session or model' },
+      { name: 'days', description: 'Only include the last N days (default: 30)' },
+    ],
+    examples: ['ask usage', 'ask usage --by session', 'ask usage --by model --days 7'],
   },
   version: {
     name: 'version',
@@ -83,6 +298,16 @@ const COMMANDS: Record<string, CommandHelp> = {
 };
 
 const CONFIG_FIELDS = [
+  {
+    name: 'provider',
+    description: 'Model provider (bedrock/anthropic/openai)',
+    example: 'ask cfg provider openai',
+  },
+  {
+    name: 'endpoint',
+    description: 'Base URL for anthropic/openai providers',
+    example: 'ask cfg endpoint http://localhost:8080/v1',
+  },
   { name: 'model', description: 'AI model (opus/sonnet/haiku)', example: 'ask cfg model sonnet' },
   {
     name: 'temperature',
@@ -91,11 +316,47 @@ const CONFIG_FIELDS = [
   },
   { name: 'tokens', description: 'Max output tokens (1-200000)', example: 'ask cfg tokens 8000' },
   { name: 'region', description: 'Preferred AWS region', example: 'ask cfg region us-west-2' },
+  {
+    name: 'thinking',
+    description: 'Extended thinking budget (tokens, or off)',
+    example: 'ask cfg thinking 8000',
+  },
+  {
+    name: 'system',
+    description: 'Default system prompt (off to clear)',
+    example: 'ask cfg system "You are a senior reviewer"',
+  },
+  { name: 'cache', description: 'Prompt caching (on/off)', example: 'ask cfg cache off' },
+  {
+    name: 'continuations',
+    description: 'Follow-ups when an answer is cut off (0-10)',
+    example: 'ask cfg continuations 4',
+  },
+  {
+    name: 'compact',
+    description: 'Auto-compact above this many input tokens (or off)',
+    example: 'ask cfg compact 120000',
+  },
+  {
+    name: 'trim',
+    description: 'Fitting the context window (elide/expansions/oldest/off)',
+    example: 'ask cfg trim oldest',
+  },
+  {
+    name: 'context',
+    description: 'Context window in tokens (or auto)',
+    example: 'ask cfg context 32000',
+  },
   {
     name: 'filter',
     description: 'Strip comments from files (on/off)',
     example: 'ask cfg filter off',
   },
+  {
+    name: 'ignore',
+    description: 'Skip files .gitignore and .askignore rule out (on/off)',
+    example: 'ask cfg ignore off',
+  },
   { name: 'web', description: 'Fetch URL references (on/off)', example: 'ask cfg web off' },
   { name: 'reset', description: 'Reset all settings to defaults', example: 'ask cfg reset' },
 ];
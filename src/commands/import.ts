@@ -0,0 +1,106 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { defineCommand } from 'citty';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { type Conversation, formatConversation, parseExport } from '../lib/import.ts';
+import { output } from '../lib/output.ts';
+
+/**
+ * "Fix the auth bug!" becomes fix-the-auth-bug.md
+ */
+function sessionPathFor(conversation: Conversation): string {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 50)
+    .replace(/-$/, '');
+
+  return `${slug || 'imported'}.md`;
+}
+
+function listConversations(conversations: Conversation[]): void {
+  for (const conversation of conversations) {
+    const turns = conversation.turns.length;
+    output.info(
+      `${output.identifier(conversation.id)}  ${conversation.title} ${output.dim(`(${turns} turn${turns !== 1 ? 's' : ''})`)}`,
+    );
+  }
+  output.blank();
+}
+
+export default defineCommand({
+  meta: {
+    name: 'import',
+    description: 'Create a session from a claude.ai, ChatGPT or API conversation export',
+  },
+  args: {
+    file: {
+      type: 'positional',
+      description: 'Export file (conversations.json, a request body or a JSONL log)',
+      required: true,
+    },
+    conversation: {
+      type: 'string',
+      description: 'ID (or the start of one) of the conversation to import',
+      alias: 'c',
+      required: false,
+    },
+    output: {
+      type: 'string',
+      description: 'Session file to create (default: from the conversation title)',
+      alias: 'o',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const exportPath = args.file as string;
+      await requireFile(exportPath, `File not found: ${exportPath}`);
+
+      const conversations = parseExport(await Bun.file(exportPath).text());
+      if (conversations.length === 0) {
+        throw new AskError(`No conversations found in ${exportPath}`);
+      }
+
+      const id = args.conversation as string | undefined;
+      const matches = id ? conversations.filter((c) => c.id.startsWith(id)) : conversations;
+
+      if (matches.length === 0) {
+        throw new AskError(
+          `No conversation ${id} in ${exportPath}`,
+          `Run 'ask import ${exportPath}' to list them`,
+        );
+      }
+
+      if (matches.length > 1) {
+        listConversations(matches);
+        throw new AskError(
+          `${matches.length} conversations in ${exportPath}`,
+          'Pick one with --conversation <id>',
+        );
+      }
+
+      const conversation = matches[0]!;
+      const sessionPath = (args.output as string | undefined) ?? sessionPathFor(conversation);
+
+      if (await Bun.file(sessionPath).exists()) {
+        throw new AskError(`${sessionPath} already exists`, 'Choose another name with -o');
+      }
+
+      const dir = path.dirname(sessionPath);
+      if (dir && dir !== '.') {
+        await fs.mkdir(dir, { recursive: true });
+      }
+
+      await Bun.write(sessionPath, formatConversation(conversation));
+
+      output.success(
+        `Imported "${conversation.title}" from ${conversation.source} into ${sessionPath}`,
+      );
+      output.hint(`Add your next question and run 'ask ${sessionPath}'`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
@@ -0,0 +1,86 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { defineCommand } from 'citty';
+import { exitWithError } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import { readSession } from '../lib/session.ts';
+import { loadUsage } from '../lib/usage.ts';
+import { findWorkspace, getCurrentSession, sessionsDir } from '../lib/workspace.ts';
+
+function timeAgo(date: Date): string {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 30 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ago`;
+  return date.toISOString().slice(0, 10);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+export default defineCommand({
+  meta: {
+    name: 'ls',
+    description: 'List the sessions in the workspace',
+  },
+  async run() {
+    try {
+      const root = await findWorkspace();
+      const files = root
+        ? (await fs.readdir(sessionsDir(root))).filter((file) => file.endsWith('.md')).sort()
+        : [];
+
+      if (!root || files.length === 0) {
+        output.info('No sessions in this workspace');
+        output.hint("Run 'ask new <name>' to create one");
+        return;
+      }
+
+      const current = await getCurrentSession(root);
+      const usage = await loadUsage();
+
+      const rows = [];
+      for (const file of files) {
+        const filePath = path.join(sessionsDir(root), file);
+        const session = await readSession(filePath);
+        const stat = await fs.stat(filePath);
+
+        const chars = session.turns.reduce((sum, turn) => sum + turn.content.length, 0);
+        const question = session.turns.find((turn) => turn.role === 'Human')?.content ?? '';
+
+        // The model that last answered, else the one the session asks for
+        const lastUsed = usage.findLast((entry) => entry.session === filePath)?.model;
+        const model = lastUsed ? output.modelName(lastUsed) : session.frontMatter['model'];
+
+        rows.push({
+          name: file.slice(0, -'.md'.length),
+          title: truncate(question.split('\n')[0]!.replace(/^#+\s*/, ''), 40) || '(empty)',
+          turns: session.turns.length,
+          tokens: Math.ceil(chars / 4),
+          modified: timeAgo(stat.mtime),
+          model: typeof model === 'string' ? model : '-',
+        });
+      }
+
+      const nameWidth = Math.max(...rows.map((row) => row.name.length)) + 2;
+      const titleWidth = Math.max(...rows.map((row) => row.title.length)) + 2;
+
+      output.log(
+        output.dim(
+          `  ${'Name'.padEnd(nameWidth)}${'Title'.padEnd(titleWidth)}${'Turns'.padStart(6)}${'Tokens'.padStart(10)}  ${'Modified'.padEnd(12)}Model`,
+        ),
+      );
+
+      for (const row of rows) {
+        const marker = row.name === current ? output.green('*') : ' ';
+        output.log(
+          `${marker} ${output.identifier(row.name.padEnd(nameWidth))}${row.title.padEnd(titleWidth)}${String(row.turns).padStart(6)}${output.number(row.tokens).padStart(10)}  ${output.dim(row.modified.padEnd(12))}${row.model}`,
+        );
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
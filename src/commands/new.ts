@@ -0,0 +1,51 @@
+import * as fs from 'node:fs/promises';
+import { defineCommand } from 'citty';
+import { AskError, exitWithError } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import {
+  findWorkspace,
+  sessionsDir,
+  setCurrentSession,
+  validateSessionName,
+  workspaceSessionPath,
+} from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'new',
+    description: 'Create a named session in the workspace and make it current',
+  },
+  args: {
+    name: {
+      type: 'positional',
+      description: 'Session name, e.g. auth-refactor',
+      required: true,
+    },
+  },
+  async run({ args }) {
+    try {
+      const name = args.name as string;
+      validateSessionName(name);
+
+      // The first session starts a workspace in the working directory
+      const root = (await findWorkspace()) ?? process.cwd();
+      await fs.mkdir(sessionsDir(root), { recursive: true });
+
+      const sessionPath = workspaceSessionPath(root, name);
+      if (await Bun.file(sessionPath).exists()) {
+        throw new AskError(
+          `Session ${name} already exists`,
+          `Run 'ask use ${name}' to switch to it`,
+        );
+      }
+
+      await Bun.write(sessionPath, '# [1] Human\n\n\n');
+      await setCurrentSession(root, name);
+
+      output.success(`Created ${sessionPath}`);
+      output.hint(`Add your question there and run 'ask'`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
@@ -0,0 +1,53 @@
+import { defineCommand } from 'citty';
+import { pickAlternate } from '../lib/alternates.ts';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import { resolveSession } from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'pick',
+    description: 'Make an alternate the canonical answer',
+  },
+  args: {
+    alternate: {
+      type: 'positional',
+      description: 'Alternate number to promote',
+      required: true,
+    },
+    session: {
+      type: 'positional',
+      description: 'Session file (default: the current session)',
+      required: false,
+    },
+    turn: {
+      type: 'string',
+      description: 'AI turn to pick in (default: the last one)',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const alternate = parseInt(args.alternate as string, 10);
+      if (Number.isNaN(alternate) || alternate < 1) {
+        throw new AskError('Invalid alternate number', 'Usage: ask pick <n> [session]');
+      }
+
+      const turnArg = args.turn as string | undefined;
+      const turn = turnArg === undefined ? undefined : parseInt(turnArg, 10);
+      if (turn !== undefined && Number.isNaN(turn)) {
+        throw new AskError('Invalid turn number', 'Usage: ask pick <n> --turn <number>');
+      }
+
+      const sessionPath = await resolveSession(args.session as string | undefined);
+
+      await requireFile(sessionPath, `File not found: ${sessionPath}`);
+
+      const turnNumber = await pickAlternate(sessionPath, alternate, turn);
+
+      output.success(`Alternate ${alternate} is now the answer to turn ${turnNumber}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
@@ -1,7 +1,9 @@
 import { defineCommand } from 'citty';
 import { exitWithError, requireFile } from '../lib/errors.ts';
+import { reportIgnored } from '../lib/ignore.ts';
 import { output } from '../lib/output.ts';
 import { refreshAllContent } from '../lib/session.ts';
+import { resolveSession } from '../lib/workspace.ts';
 
 export default defineCommand({
   meta: {
@@ -11,13 +13,18 @@ export default defineCommand({
   args: {
     session: {
       type: 'positional',
-      description: 'Session file to refresh (default: session.md)',
+      description: 'Session file to refresh (default: the current session)',
+      required: false,
+    },
+    'show-ignored': {
+      type: 'boolean',
+      description: 'List files and directories skipped because of ignore files',
       required: false,
     },
   },
   async run({ args }) {
     try {
-      const sessionPath = (args.session as string | undefined) ?? 'session.md';
+      const sessionPath = await resolveSession(args.session as string | undefined);
 
       await requireFile(sessionPath, `File not found: ${sessionPath}`);
 
@@ -29,6 +36,8 @@ export default defineCommand({
         output.info('No expanded references found to refresh');
         output.hint('Use [[path/]] or [[file.ext]] to expand files');
       }
+
+      reportIgnored(result.ignored, Boolean(args['show-ignored']), 'ask refresh');
     } catch (error) {
       exitWithError(error);
     }
@@ -0,0 +1,114 @@
+import { defineCommand } from 'citty';
+import { archiveAnswer, writeSession } from '../lib/alternates.ts';
+import { applyOverrides, connectModel, streamAnswer } from '../lib/completion.ts';
+import { applySessionSettings, loadConfig } from '../lib/config.ts';
+import { AskError, exitWithError, requireFile } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import { readSession, SessionWriter, turnsToMessages } from '../lib/session.ts';
+import { fitToContext } from '../lib/trim.ts';
+import { resolveSession } from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'retry',
+    description: 'Regenerate the last answer, keeping the current one as an alternate',
+  },
+  args: {
+    session: {
+      type: 'positional',
+      description: 'Session file to retry (default: the current session)',
+      required: false,
+    },
+    model: {
+      type: 'string',
+      description: 'Model to use (opus/sonnet/haiku, or a model name for openai)',
+      alias: 'm',
+      required: false,
+    },
+    temperature: {
+      type: 'string',
+      description: 'Temperature for this answer (0.0-1.0)',
+      alias: 't',
+      required: false,
+    },
+    provider: {
+      type: 'string',
+      description: 'Provider to use (bedrock/anthropic/openai)',
+      alias: 'p',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const sessionPath = await resolveSession(args.session as string | undefined);
+
+      await requireFile(sessionPath, `File not found: ${sessionPath}`);
+
+      const session = await readSession(sessionPath);
+      const temperature = args.temperature as string | undefined;
+
+      const config = applyOverrides(applySessionSettings(await loadConfig(), session.frontMatter), {
+        model: args.model as string | undefined,
+        provider: args.provider as string | undefined,
+        temperature: temperature === undefined ? undefined : parseFloat(temperature),
+      });
+
+      const { provider, model, maxTokens } = await connectModel(config);
+
+      const original = await Bun.file(sessionPath).text();
+      const { turnNumber, alternate, archived } = archiveAnswer(original);
+
+      const history = session.turns.filter((turn) => turn.number < turnNumber);
+      if (history.length === 0) {
+        throw new AskError(`Turn ${turnNumber} has no question before it`);
+      }
+
+      const system = session.system ?? config.system;
+      const systemTokens = Math.ceil((system?.length ?? 0) / 4);
+
+      const { messages, tokens } = fitToContext(
+        await turnsToMessages(history, { cache: config.cache }),
+        history,
+        { modelId: model.modelId, config, maxTokens, systemTokens },
+      );
+      const inputTokens = tokens + systemTokens;
+
+      output.meta([
+        ['Input', `${output.number(inputTokens)} tokens`],
+        ['Retrying', `turn ${turnNumber}`],
+        ...(alternate ? [['Kept', `alternate ${alternate}`] as [string, string]] : []),
+      ]);
+
+      // The answer moves to an alternate only once the request is ready
+      await writeSession(sessionPath, archived);
+
+      try {
+        await streamAnswer({
+          provider,
+          model,
+          config,
+          sessionPath,
+          inputTokens,
+          writer: SessionWriter.reopen(sessionPath, turnNumber),
+          request: {
+            model: model.id,
+            messages,
+            maxTokens,
+            temperature: config.temperature,
+            system,
+            thinking: config.thinking,
+            cache: config.cache,
+          },
+        });
+      } catch (error) {
+        // Nothing streamed: put the answer back rather than leave the turn empty
+        if ((await Bun.file(sessionPath).text()) === archived) {
+          await writeSession(sessionPath, original);
+        }
+        throw error;
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
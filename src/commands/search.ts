@@ -0,0 +1,141 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { defineCommand } from 'citty';
+import { type Config, loadConfig } from '../lib/config.ts';
+import { AskError, exitWithError } from '../lib/errors.ts';
+import { createIgnoreChecker } from '../lib/ignore.ts';
+import { output } from '../lib/output.ts';
+import { type SearchHit, searchSession, searchTerms } from '../lib/search.ts';
+import { findWorkspace, sessionsDir } from '../lib/workspace.ts';
+
+// Dependencies checked into the tree, never sessions
+const VENDORED = new Set(['node_modules', 'vendor']);
+
+const TURN_HEADER = /^# \[\d+\] (?:Human|AI)$/m;
+
+/**
+ * Markdown files under the working directory, and the workspace sessions
+ * (hidden in .ask, so the walk doesn't reach them). Hidden, vendored and
+ * ignored directories aren't entered.
+ */
+async function sessionFiles(config: Config): Promise<string[]> {
+  const files = new Set<string>();
+  const ignoredBy = config.ignoreFiles ? createIgnoreChecker() : undefined;
+
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || VENDORED.has(entry.name)) continue;
+        if (await ignoredBy?.(entryPath, true)) continue;
+        await walk(entryPath);
+      } else if (entry.isFile() && entry.name.endsWith('.md')) {
+        if (await ignoredBy?.(entryPath)) continue;
+        files.add(path.resolve(entryPath));
+      }
+    }
+  };
+
+  await walk('.');
+
+  const root = await findWorkspace();
+  if (root) {
+    for await (const file of new Bun.Glob('*.md').scan({ cwd: sessionsDir(root) })) {
+      files.add(path.join(sessionsDir(root), file));
+    }
+  }
+
+  return [...files];
+}
+
+function highlight(text: string, terms: string[]): string {
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return text.replace(new RegExp(escaped.join('|'), 'gi'), (match) => output.yellow(match));
+}
+
+export default defineCommand({
+  meta: {
+    name: 'search',
+    description: 'Search past conversations',
+  },
+  args: {
+    query: {
+      type: 'positional',
+      description: 'Words to find; a turn must contain all of them',
+      required: true,
+    },
+    expanded: {
+      type: 'boolean',
+      description: 'Also search expanded files, directories and URLs',
+      alias: 'e',
+      required: false,
+    },
+    limit: {
+      type: 'string',
+      description: 'Maximum number of results (default: 20)',
+      alias: 'n',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      // Unquoted words arrive as separate positionals
+      const query = args._.join(' ');
+      const terms = searchTerms(query);
+      if (terms.length === 0) {
+        throw new AskError('Nothing to search for', 'Example: ask search retry backoff');
+      }
+
+      const limit = parseInt((args.limit as string | undefined) ?? '20', 10);
+      if (Number.isNaN(limit) || limit <= 0) {
+        throw new AskError('Invalid limit', 'Example: ask search retry backoff -n 5');
+      }
+
+      const results: Array<SearchHit & { file: string; modified: number }> = [];
+
+      const config = await loadConfig();
+
+      for (const file of await sessionFiles(config)) {
+        // Only files with turns are sessions
+        const content = await Bun.file(file).text();
+        if (!TURN_HEADER.test(content)) continue;
+
+        const hits = searchSession(content, query, {
+          expanded: args.expanded as boolean | undefined,
+        });
+        if (hits.length === 0) continue;
+
+        const modified = (await fs.stat(file)).mtimeMs;
+        results.push(...hits.map((hit) => ({ ...hit, file, modified })));
+      }
+
+      if (results.length === 0) {
+        output.info(`No turns match "${query}"`);
+        if (!args.expanded) {
+          output.hint('Use --expanded to also search expanded files and URLs');
+        }
+        return;
+      }
+
+      // Best matches first; among equals, the most recently edited session
+      results.sort((a, b) => b.score - a.score || b.modified - a.modified || a.turn - b.turn);
+
+      for (const result of results.slice(0, limit)) {
+        output.log(
+          `${output.identifier(path.relative(process.cwd(), result.file))} ${output.dim(`[${result.turn}] ${result.role}`)}`,
+        );
+        output.log(`  ${highlight(result.snippet, terms)}`);
+        output.blank();
+      }
+
+      if (results.length > limit) {
+        output.hint(`Showing ${limit} of ${results.length} matches; use -n to see more`);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
@@ -0,0 +1,110 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { defineCommand } from 'citty';
+import { AskError, exitWithError } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import { getUsagePath, loadUsage, summarizeUsage, type UsageEntry } from '../lib/usage.ts';
+
+const GROUPINGS: Record<string, { title: string; keyOf: (entry: UsageEntry) => string }> = {
+  day: { title: 'By day', keyOf: (entry) => entry.timestamp.slice(0, 10) },
+  session: { title: 'By session', keyOf: (entry) => displayPath(entry.session) },
+  model: { title: 'By model', keyOf: (entry) => entry.model },
+};
+
+function displayPath(file: string): string {
+  const relative = path.relative(process.cwd(), file);
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative;
+  }
+  const home = os.homedir();
+  return file.startsWith(home) ? `~${file.slice(home.length)}` : file;
+}
+
+function showTable(title: string, entries: UsageEntry[], keyOf: (entry: UsageEntry) => string) {
+  const rows = summarizeUsage(entries, keyOf).sort((a, b) =>
+    title === 'By day' ? b.key.localeCompare(a.key) : b.cost - a.cost,
+  );
+
+  const keyWidth = Math.max(10, ...rows.map((r) => r.key.length)) + 2;
+  const cols = ['Requests', 'Input', 'Output', 'Cache read', 'Cache write', 'Cost'];
+
+  output.log(output.bold(title));
+  output.log(output.dim(`  ${''.padEnd(keyWidth)}${cols.map((c) => c.padStart(12)).join('')}`));
+
+  for (const row of rows) {
+    const values = [
+      output.number(row.requests),
+      output.number(row.input),
+      output.number(row.output),
+      output.number(row.cacheRead),
+      output.number(row.cacheWrite),
+      output.cost(row.cost),
+    ];
+    output.log(
+      `  ${output.identifier(row.key.padEnd(keyWidth))}${values.map((v) => v.padStart(12)).join('')}`,
+    );
+  }
+
+  output.blank();
+}
+
+export default defineCommand({
+  meta: {
+    name: 'usage',
+    description: 'Summarize token usage and cost',
+  },
+  args: {
+    by: {
+      type: 'string',
+      description: 'Group by day, session or model (default: all)',
+      required: false,
+    },
+    days: {
+      type: 'string',
+      description: 'Only include the last N days (default: 30)',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const by = args.by as string | undefined;
+      if (by && !GROUPINGS[by]) {
+        throw new AskError(`Invalid grouping: ${by}`, 'Valid options: day, session, model');
+      }
+
+      const days = parseInt((args.days as string | undefined) ?? '30', 10);
+      if (Number.isNaN(days) || days <= 0) {
+        throw new AskError('Invalid number of days', 'Example: ask usage --days 7');
+      }
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const entries = (await loadUsage()).filter((entry) => entry.timestamp >= since);
+
+      if (entries.length === 0) {
+        output.info(`No usage recorded in the last ${days} days`);
+        output.hint(`Ledger: ${getUsagePath()}`);
+        return;
+      }
+
+      output.blank();
+      const groupings = by ? [GROUPINGS[by]!] : Object.values(GROUPINGS);
+      for (const { title, keyOf } of groupings) {
+        showTable(title, entries, keyOf);
+      }
+
+      const total = entries.reduce((sum, entry) => sum + (entry.cost ?? 0), 0);
+      output.meta([
+        ['Total', output.cost(total)],
+        ['Requests', entries.length],
+        ['Since', since.slice(0, 10)],
+      ]);
+
+      if (entries.some((entry) => entry.cost === null)) {
+        output.hint('  Some models have no price configured; add them under "prices" in config');
+      }
+      output.blank();
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
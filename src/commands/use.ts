@@ -0,0 +1,44 @@
+import { defineCommand } from 'citty';
+import { AskError, exitWithError } from '../lib/errors.ts';
+import { output } from '../lib/output.ts';
+import {
+  findWorkspace,
+  setCurrentSession,
+  validateSessionName,
+  workspaceSessionPath,
+} from '../lib/workspace.ts';
+
+export default defineCommand({
+  meta: {
+    name: 'use',
+    description: 'Set the session commands use by default',
+  },
+  args: {
+    name: {
+      type: 'positional',
+      description: 'Session name (see ask ls)',
+      required: true,
+    },
+  },
+  async run({ args }) {
+    try {
+      const name = (args.name as string).replace(/\.md$/, '');
+      validateSessionName(name);
+
+      const root = await findWorkspace();
+      if (!root) {
+        throw new AskError('No workspace found', "Run 'ask new <name>' to create one");
+      }
+
+      const sessionPath = workspaceSessionPath(root, name);
+      if (!(await Bun.file(sessionPath).exists())) {
+        throw new AskError(`No session named ${name}`, "Run 'ask ls' to see the sessions");
+      }
+
+      await setCurrentSession(root, name);
+      output.success(`Now using ${sessionPath}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  },
+});
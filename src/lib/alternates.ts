@@ -0,0 +1,179 @@
+import { AskError } from './errors.ts';
+import { findTurnHeaders } from './parser.ts';
+import { findExcludedRegions } from './regions.ts';
+
+/**
+ * Earlier answers to the same turn, kept in collapsed blocks above the
+ * canonical answer. The parser skips them, so only the canonical answer
+ * is sent back to the model.
+ */
+
+const ALTERNATE_SUMMARY = /^<summary>Alternate (\d+)<\/summary>$/;
+
+interface Alternate {
+  number: number;
+  body: string;
+}
+
+interface AnswerLocation {
+  lines: string[];
+  turnNumber: number;
+  // Body lines of the AI turn, end exclusive
+  start: number;
+  end: number;
+}
+
+/**
+ * Find an AI turn in the file, by default the last one
+ */
+function locateAnswer(content: string, turnNumber?: number): AnswerLocation {
+  const lines = content.split('\n');
+  const headers = findTurnHeaders(lines);
+
+  const index =
+    turnNumber === undefined
+      ? headers.findLastIndex((h) => h.role === 'AI')
+      : headers.findIndex((h) => h.role === 'AI' && h.number === turnNumber);
+
+  if (index === -1) {
+    throw new AskError(
+      turnNumber === undefined ? 'No AI answer found' : `Turn ${turnNumber} is not an AI turn`,
+    );
+  }
+
+  const header = headers[index]!;
+  const next = headers[index + 1];
+
+  return {
+    lines,
+    turnNumber: header.number,
+    start: header.lineIndex + 1,
+    end: next ? next.lineIndex : lines.length,
+  };
+}
+
+/**
+ * Separate an AI turn body into its alternates and the canonical answer
+ */
+function splitAnswer(body: string): { alternates: Alternate[]; canonical: string } {
+  const lines = body.split('\n');
+  const alternates: Alternate[] = [];
+  const skipped = new Set<number>();
+
+  for (const region of findExcludedRegions(lines)) {
+    if (region.type !== 'details') continue;
+
+    const match = lines[region.start + 1]?.match(ALTERNATE_SUMMARY);
+    if (!match) continue;
+
+    alternates.push({
+      number: parseInt(match[1]!, 10),
+      body: lines
+        .slice(region.start + 2, region.end)
+        .join('\n')
+        .trim(),
+    });
+
+    for (let i = region.start; i <= region.end; i++) skipped.add(i);
+  }
+
+  const canonical = lines
+    .filter((_, i) => !skipped.has(i))
+    .join('\n')
+    .trim();
+
+  return { alternates, canonical };
+}
+
+function formatAlternates(alternates: Alternate[]): string {
+  return alternates
+    .map(
+      ({ number, body }) =>
+        `<details>\n<summary>Alternate ${number}</summary>\n\n${body}\n\n</details>`,
+    )
+    .join('\n\n');
+}
+
+export async function writeSession(path: string, content: string): Promise<void> {
+  const tmpPath = `${path}.tmp-${Date.now()}`;
+  await Bun.write(tmpPath, content);
+
+  const fs = await import('node:fs/promises');
+  await fs.rename(tmpPath, path);
+}
+
+/**
+ * Session content with the last AI answer moved into a new alternate and
+ * the empty human turn after it dropped, ready for a new answer to the
+ * same turn. Nothing is written, so the caller can check the request first.
+ */
+export function archiveAnswer(content: string): {
+  turnNumber: number;
+  alternate: number | undefined;
+  archived: string;
+} {
+  const { lines, turnNumber, start, end } = locateAnswer(content);
+
+  const followUp = lines
+    .slice(end + 1)
+    .join('\n')
+    .trim();
+  if (followUp) {
+    throw new AskError(
+      `Turn ${turnNumber + 1} already has content`,
+      'Only the last answer can be retried; clear the question after it first',
+    );
+  }
+
+  const { alternates, canonical } = splitAnswer(lines.slice(start, end).join('\n'));
+
+  let alternate: number | undefined;
+  if (canonical) {
+    alternate = Math.max(0, ...alternates.map((a) => a.number)) + 1;
+    alternates.push({ number: alternate, body: canonical });
+  }
+
+  const head = lines.slice(0, start).join('\n');
+  const kept = formatAlternates(alternates);
+
+  return {
+    turnNumber,
+    alternate,
+    archived: kept ? `${head}\n\n${kept}\n\n` : `${head}\n\n`,
+  };
+}
+
+/**
+ * Swap an alternate with the canonical answer of an AI turn
+ */
+export async function pickAlternate(
+  path: string,
+  alternate: number,
+  turnNumber?: number,
+): Promise<number> {
+  const content = await Bun.file(path).text();
+  const location = locateAnswer(content, turnNumber);
+  const { lines, start, end } = location;
+
+  const { alternates, canonical } = splitAnswer(lines.slice(start, end).join('\n'));
+  const picked = alternates.find((a) => a.number === alternate);
+
+  if (!picked) {
+    const available = alternates.map((a) => a.number).join(', ');
+    throw new AskError(
+      `Turn ${location.turnNumber} has no alternate ${alternate}`,
+      available ? `Available alternates: ${available}` : 'Run ask retry to create one',
+    );
+  }
+
+  const remaining = canonical
+    ? alternates.map((a) => (a === picked ? { number: a.number, body: canonical } : a))
+    : alternates.filter((a) => a !== picked);
+
+  const body = [formatAlternates(remaining), picked.body].filter(Boolean).join('\n\n');
+
+  const updated = [...lines.slice(0, start), '', body, '', ...lines.slice(end)];
+  await writeSession(path, updated.join('\n'));
+
+  return location.turnNumber;
+}
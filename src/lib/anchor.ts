@@ -0,0 +1,111 @@
+import { languageFor } from './languages.ts';
+import { findExcludedRegions } from './regions.ts';
+
+/**
+ * Parts of a file named after a #: a line range (#L120-180), a start and
+ * line count (#L40+20), or a markdown section by heading (#Configuration,
+ * or the heading's slug as GitHub shows it, #file--url-references).
+ */
+
+export interface FileSlice {
+  content: string;
+  start: number;
+  end: number;
+}
+
+const LINE_RANGE = /^L(\d+)(?:-L?(\d+)|\+(\d+))?$/;
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Split `path#anchor` or `path::symbol`; the part keeps its separator.
+ * A :: only names a symbol when what comes before it is a file.
+ */
+export async function splitPart(ref: string): Promise<{ path: string; part?: string }> {
+  const symbol = ref.lastIndexOf('::');
+  if (symbol > 0 && symbol < ref.length - 2 && (await Bun.file(ref.slice(0, symbol)).exists())) {
+    return { path: ref.slice(0, symbol), part: ref.slice(symbol) };
+  }
+
+  const anchor = ref.lastIndexOf('#');
+  if (anchor > 0 && anchor < ref.length - 1) {
+    return { path: ref.slice(0, anchor), part: ref.slice(anchor) };
+  }
+
+  return { path: ref };
+}
+
+function slugOf(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s/g, '-');
+}
+
+function sliceLines(lines: string[], anchor: string): { start: number; end: number } {
+  const match = anchor.match(LINE_RANGE)!;
+  const start = parseInt(match[1]!, 10);
+  const end = match[2]
+    ? parseInt(match[2], 10)
+    : match[3]
+      ? start + parseInt(match[3], 10) - 1
+      : start;
+
+  if (start < 1 || end < start) {
+    throw new Error(`Invalid line range: #${anchor}`);
+  }
+  if (start > lines.length) {
+    throw new Error(`Line ${start} is past the end of the file (${lines.length} lines)`);
+  }
+
+  return { start, end: Math.min(end, lines.length) };
+}
+
+function sliceSection(lines: string[], anchor: string): { start: number; end: number } {
+  const fences = findExcludedRegions(lines).filter((r) => r.type === 'code-fence');
+  const inFence = (i: number) => fences.some((r) => i >= r.start && i <= r.end);
+
+  const wanted = anchor.toLowerCase();
+  const start = lines.findIndex((line, i) => {
+    const heading = line.match(HEADING);
+    if (!heading || inFence(i)) return false;
+    return heading[2]!.toLowerCase() === wanted || slugOf(heading[2]!) === wanted;
+  });
+
+  if (start === -1) {
+    throw new Error(`Heading not found: #${anchor}`);
+  }
+
+  // The section runs to the next heading of the same or a higher level
+  const level = lines[start]!.match(HEADING)![1]!.length;
+  let end = start + 1;
+  while (end < lines.length) {
+    const heading = lines[end]!.match(HEADING);
+    if (heading && heading[1]!.length <= level && !inFence(end)) break;
+    end++;
+  }
+
+  // Line numbers are 1-based and inclusive
+  return { start: start + 1, end };
+}
+
+export function sliceFile(content: string, anchor: string, path: string): FileSlice {
+  const lines = content.split('\n');
+
+  if (!LINE_RANGE.test(anchor) && languageFor(path) !== 'markdown') {
+    throw new Error(`Headings only work in markdown files; use #L<start>-<end> for ${path}`);
+  }
+
+  const { start, end } = LINE_RANGE.test(anchor)
+    ? sliceLines(lines, anchor)
+    : sliceSection(lines, anchor);
+
+  return {
+    content: lines
+      .slice(start - 1, end)
+      .join('\n')
+      .replace(/\n+$/, ''),
+    start,
+    end,
+  };
+}
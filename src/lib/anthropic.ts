@@ -0,0 +1,203 @@
+import type {
+  CompletionRequest,
+  ContentBlock,
+  Provider,
+  StopReason,
+  StreamEvent,
+  TokenUsage,
+} from '../types.ts';
+import type { Config } from './config.ts';
+import { AskError } from './errors.ts';
+import { documentAsText } from './extract.ts';
+import { getJson, postStream, readEvents } from './sse.ts';
+
+const DEFAULT_ENDPOINT = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 64000;
+
+interface AnthropicModelList {
+  data: Array<{ id: string }>;
+}
+
+function apiKey(): string {
+  const key = process.env['ANTHROPIC_API_KEY'];
+  if (!key) {
+    throw new AskError('ANTHROPIC_API_KEY is not set', 'Run: export ANTHROPIC_API_KEY=<your key>');
+  }
+  return key;
+}
+
+function headers(): Record<string, string> {
+  return {
+    'x-api-key': apiKey(),
+    'anthropic-version': API_VERSION,
+  };
+}
+
+/**
+ * Convert content blocks, turning cache points into cache_control markers
+ */
+function toAnthropicContent(blocks: ContentBlock[]): Array<Record<string, unknown>> {
+  const content: Array<Record<string, unknown>> = [];
+
+  for (const block of blocks) {
+    if ('cachePoint' in block) {
+      const previous = content[content.length - 1];
+      if (previous) {
+        previous['cache_control'] = { type: 'ephemeral' };
+      }
+    } else if ('image' in block) {
+      content.push({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: `image/${block.image.format}`,
+          data: Buffer.from(block.image.source.bytes).toString('base64'),
+        },
+      });
+    } else if ('document' in block) {
+      // Only PDFs are native; other formats go as extracted text
+      content.push(
+        block.document.format === 'pdf'
+          ? {
+              type: 'document',
+              title: block.document.name,
+              source: {
+                type: 'base64',
+                media_type: 'application/pdf',
+                data: Buffer.from(block.document.source.bytes).toString('base64'),
+              },
+            }
+          : { type: 'text', text: documentAsText(block.document) },
+      );
+    } else {
+      content.push({ type: 'text', text: block.text });
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Build a Messages API request body from a completion request
+ */
+export function toAnthropicRequest(request: CompletionRequest): Record<string, unknown> {
+  return {
+    model: request.model,
+    max_tokens: Math.min(request.maxTokens, MAX_OUTPUT_TOKENS),
+    // Extended thinking requires the default temperature
+    ...(request.thinking
+      ? { thinking: { type: 'enabled', budget_tokens: request.thinking } }
+      : { temperature: request.temperature }),
+    ...(request.system && {
+      system: request.cache
+        ? [{ type: 'text', text: request.system, cache_control: { type: 'ephemeral' } }]
+        : request.system,
+    }),
+    messages: request.messages.map((message) => ({
+      role: message.role,
+      content: toAnthropicContent(message.content),
+    })),
+  };
+}
+
+export function createAnthropicProvider(config: Config): Provider {
+  const endpoint = (config.endpoint ?? DEFAULT_ENDPOINT).replace(/\/$/, '');
+
+  async function listModels(): Promise<string[]> {
+    // The API lists newest models first
+    const list = await getJson<AnthropicModelList>(`${endpoint}/v1/models?limit=1000`, headers());
+    return list.data.map((model) => model.id);
+  }
+
+  async function* stream(
+    request: CompletionRequest,
+    abortSignal?: AbortSignal,
+  ): AsyncGenerator<StreamEvent> {
+    try {
+      yield { type: 'start' };
+
+      const response = await postStream(
+        `${endpoint}/v1/messages`,
+        headers(),
+        { ...toAnthropicRequest(request), stream: true },
+        abortSignal,
+      );
+
+      let totalTokens = 0;
+      let stopReason: StopReason | undefined;
+      const usage: TokenUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+
+      for await (const { data } of readEvents(response)) {
+        // Check abort between events
+        if (abortSignal?.aborted) {
+          break;
+        }
+
+        const event = JSON.parse(data);
+
+        if (event.type === 'message_start' && event.message?.usage) {
+          const reported = event.message.usage;
+          usage.input = reported.input_tokens ?? 0;
+          usage.cacheRead = reported.cache_read_input_tokens ?? 0;
+          usage.cacheWrite = reported.cache_creation_input_tokens ?? 0;
+        }
+
+        if (event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta') {
+          const text: string = event.delta.thinking;
+          totalTokens += Math.ceil(text.length / 4);
+          yield { type: 'thinking', text, tokens: totalTokens };
+        }
+
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          const text: string = event.delta.text;
+          totalTokens += Math.ceil(text.length / 4);
+          yield { type: 'chunk', text, tokens: totalTokens };
+        }
+
+        if (event.type === 'message_delta' && event.usage?.output_tokens) {
+          totalTokens = event.usage.output_tokens;
+        }
+
+        if (event.type === 'message_delta' && event.delta?.stop_reason) {
+          const reason: string = event.delta.stop_reason;
+          stopReason = reason === 'max_tokens' || reason === 'end_turn' ? reason : 'other';
+        }
+
+        if (event.type === 'error') {
+          throw new Error(event.error?.message ?? 'Stream error');
+        }
+      }
+
+      yield { type: 'end', usage: { ...usage, output: totalTokens }, stopReason };
+    } catch (error) {
+      // Don't yield error if aborted
+      if (abortSignal?.aborted) {
+        return;
+      }
+      yield { type: 'error', error: AskError.from(error) };
+    }
+  }
+
+  return {
+    name: 'anthropic',
+
+    async resolveModel(model) {
+      const models = await listModels();
+      const match = models.find((id) => id === model) ?? models.find((id) => id.includes(model));
+
+      if (!match) {
+        throw new AskError(
+          `No Anthropic model found for ${model}`,
+          `Available models:\n${models.map((id) => `  ${id}`).join('\n') || '  (none found)'}`,
+        );
+      }
+
+      return { id: match, modelId: match, location: new URL(endpoint).host };
+    },
+
+    listModels,
+
+    stream,
+  };
+}
@@ -0,0 +1,128 @@
+import type { DocumentFormat, ImageFormat } from '../types.ts';
+import { AskError } from './errors.ts';
+
+// Bedrock limits; the Anthropic API allows slightly more
+const MAX_IMAGE_BYTES = 3.75 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 4.5 * 1024 * 1024;
+export const MAX_IMAGES = 20;
+export const MAX_DOCUMENTS = 5;
+
+const IMAGE_EXTENSIONS: Record<string, ImageFormat> = {
+  png: 'png',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  gif: 'gif',
+  webp: 'webp',
+};
+
+const IMAGE_SIGNATURES: Array<{ format: ImageFormat; bytes: number[]; offset?: number }> = [
+  { format: 'png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { format: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { format: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { format: 'webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+];
+
+const DOCUMENT_EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  csv: 'csv',
+  docx: 'docx',
+  xlsx: 'xlsx',
+};
+
+export const IMAGE_MARKER = /^<!-- image: (.+) -->$/;
+export const DOCUMENT_MARKER = /^<!-- document: (.+) -->$/;
+
+export function imageFormatFor(path: string): ImageFormat | undefined {
+  const ext = path.split('.').pop()?.toLowerCase();
+  return ext ? IMAGE_EXTENSIONS[ext] : undefined;
+}
+
+export function documentFormatFor(path: string): DocumentFormat | undefined {
+  const ext = path.split('.').pop()?.toLowerCase();
+  return ext ? DOCUMENT_EXTENSIONS[ext] : undefined;
+}
+
+function detectImageFormat(bytes: Uint8Array): ImageFormat | undefined {
+  return IMAGE_SIGNATURES.find(({ bytes: signature, offset = 0 }) =>
+    signature.every((b, i) => bytes[offset + i] === b),
+  )?.format;
+}
+
+/**
+ * Read an image, checking its size and that its content matches a supported format
+ */
+export async function loadImage(path: string): Promise<{ format: ImageFormat; bytes: Uint8Array }> {
+  const file = Bun.file(path);
+
+  if (!(await file.exists())) {
+    throw new AskError(`Image not found: ${path}`, 'Fix or remove the <!-- image: --> marker');
+  }
+
+  if (file.size > MAX_IMAGE_BYTES) {
+    const mb = (file.size / 1024 / 1024).toFixed(1);
+    throw new AskError(`Image too large: ${path} (${mb} MB)`, 'Images must be under 3.75 MB');
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectImageFormat(bytes);
+
+  if (!format) {
+    throw new AskError(`Unsupported image: ${path}`, 'Supported formats: png, jpeg, gif, webp');
+  }
+
+  return { format, bytes };
+}
+
+/**
+ * Read a document, checking its size and format
+ */
+export async function loadDocument(
+  path: string,
+): Promise<{ format: DocumentFormat; name: string; bytes: Uint8Array }> {
+  const format = documentFormatFor(path);
+  if (!format) {
+    throw new AskError(`Unsupported document: ${path}`, 'Supported formats: pdf, csv, docx, xlsx');
+  }
+
+  const file = Bun.file(path);
+
+  if (!(await file.exists())) {
+    throw new AskError(`Document not found: ${path}`, 'Fix or remove the <!-- document: --> block');
+  }
+
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    const mb = (file.size / 1024 / 1024).toFixed(1);
+    throw new AskError(`Document too large: ${path} (${mb} MB)`, 'Documents must be under 4.5 MB');
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  const isPdf = bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46;
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  if ((format === 'pdf' && !isPdf) || ((format === 'docx' || format === 'xlsx') && !isZip)) {
+    throw new AskError(`Not a valid ${format} file: ${path}`);
+  }
+
+  return { format, name: documentName(path), bytes };
+}
+
+/**
+ * Document names may only hold letters, digits, single spaces,
+ * hyphens, parentheses and square brackets
+ */
+function documentName(path: string): string {
+  const base = path.split('/').pop() ?? path;
+  return (
+    base
+      .replace(/\.[^.]+$/, '')
+      .replace(/[^A-Za-z0-9\s\-()[\]]/g, '-')
+      .replace(/\s+/g, ' ')
+      .trim() || 'document'
+  );
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -10,10 +10,19 @@ import {
   type ConverseStreamCommandInput,
 } from '@aws-sdk/client-bedrock-runtime';
 import { output } from '../lib/output.ts';
-import type { InferenceProfile, Message, ModelType, StreamEvent } from '../types.ts';
-import { getCachedProfile, saveProfileCache } from './cache.ts';
-import { loadConfig } from './config.ts';
+import type {
+  CompletionRequest,
+  InferenceProfile,
+  ModelType,
+  Provider,
+  StopReason,
+  StreamEvent,
+  TokenUsage,
+} from '../types.ts';
+import { extractRegion, getCachedProfile, saveProfileCache } from './cache.ts';
+import type { Config } from './config.ts';
 import { AskError } from './errors.ts';
+import { isValidModel } from './models.ts';
 import { withRetry } from './retry.ts';
 
 const TIMEOUT_MS = 5 * 60 * 1000;
@@ -101,8 +110,11 @@ function parseModelVersion(modelId: string): { major: number; minor: number; dat
   return { major, minor, date };
 }
 
-export async function findProfile(modelType: ModelType): Promise<InferenceProfile> {
-  const cached = await getCachedProfile(modelType);
+export async function findProfile(
+  modelType: ModelType,
+  preferredRegion?: string,
+): Promise<InferenceProfile> {
+  const cached = await getCachedProfile(modelType, preferredRegion);
   if (cached) {
     return cached;
   }
@@ -110,8 +122,6 @@ export async function findProfile(modelType: ModelType): Promise<InferenceProfil
   output.info('Discovering AWS inference profiles...');
 
   const client = getBedrockClient();
-  const config = await loadConfig();
-  const preferredRegion = config.region;
 
   try {
     const allProfiles = await fetchAllInferenceProfiles(client);
@@ -272,14 +282,33 @@ async function discoverAvailableModels(): Promise<Map<string, string>> {
   }
 }
 
+async function listProfileModels(): Promise<string[]> {
+  const profiles = await fetchAllInferenceProfiles(getBedrockClient());
+  const modelIds = new Set<string>();
+
+  for (const profile of profiles) {
+    for (const model of profile.models ?? []) {
+      if (model.modelArn) {
+        modelIds.add(model.modelArn.split('/').pop() || model.modelArn);
+      }
+    }
+  }
+
+  return Array.from(modelIds).sort();
+}
+
+function toStopReason(reason: string): StopReason {
+  if (reason === 'max_tokens') return 'max_tokens';
+  if (reason === 'end_turn') return 'end_turn';
+  return 'other';
+}
+
 export async function* streamCompletion(
-  profileArn: string,
-  messages: Message[],
-  maxTokens: number,
-  temperature: number = 1.0,
+  request: CompletionRequest,
   abortSignal?: AbortSignal,
 ): AsyncGenerator<StreamEvent> {
   const client = getRuntimeClient();
+  const { maxTokens, temperature } = request;
 
   const effectiveMaxTokens = Math.min(maxTokens, 64000);
 
@@ -288,12 +317,23 @@ export async function* streamCompletion(
   }
 
   const input: ConverseStreamCommandInput = {
-    modelId: profileArn,
-    messages,
+    modelId: request.model,
+    messages: request.messages,
+    ...(request.system && {
+      system: request.cache
+        ? [{ text: request.system }, { cachePoint: { type: 'default' } }]
+        : [{ text: request.system }],
+    }),
     inferenceConfig: {
-      temperature,
+      // Extended thinking requires the default temperature
+      ...(!request.thinking && { temperature }),
       maxTokens: effectiveMaxTokens,
     },
+    ...(request.thinking && {
+      additionalModelRequestFields: {
+        thinking: { type: 'enabled', budget_tokens: request.thinking },
+      },
+    }),
   };
 
   try {
@@ -323,6 +363,8 @@ export async function* streamCompletion(
       clearTimeout(timeoutId);
 
       let totalTokens = 0;
+      let stopReason: StopReason | undefined;
+      const usage: TokenUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
 
       if (response.stream) {
         for await (const event of response.stream) {
@@ -331,6 +373,12 @@ export async function* streamCompletion(
             break;
           }
 
+          if (event.contentBlockDelta?.delta?.reasoningContent?.text) {
+            const text = event.contentBlockDelta.delta.reasoningContent.text;
+            totalTokens += Math.ceil(text.length / 4);
+            yield { type: 'thinking', text, tokens: totalTokens };
+          }
+
           if (event.contentBlockDelta?.delta?.text) {
             const text = event.contentBlockDelta.delta.text;
             const tokens = Math.ceil(text.length / 4);
@@ -338,13 +386,23 @@ export async function* streamCompletion(
             yield { type: 'chunk', text, tokens: totalTokens };
           }
 
-          if (event.metadata?.usage?.outputTokens) {
-            totalTokens = event.metadata.usage.outputTokens;
+          if (event.messageStop?.stopReason) {
+            stopReason = toStopReason(event.messageStop.stopReason);
+          }
+
+          if (event.metadata?.usage) {
+            const reported = event.metadata.usage;
+            usage.input = reported.inputTokens ?? 0;
+            usage.cacheRead = reported.cacheReadInputTokens ?? 0;
+            usage.cacheWrite = reported.cacheWriteInputTokens ?? 0;
+            if (reported.outputTokens) {
+              totalTokens = reported.outputTokens;
+            }
           }
         }
       }
 
-      yield { type: 'end', totalTokens };
+      yield { type: 'end', usage: { ...usage, output: totalTokens }, stopReason };
     } catch (error: any) {
       clearTimeout(timeoutId);
       // Don't throw on abort - just end gracefully
@@ -361,3 +419,25 @@ export async function* streamCompletion(
     yield { type: 'error', error: AskError.from(error) };
   }
 }
+
+export function createBedrockProvider(config: Config): Provider {
+  return {
+    name: 'bedrock',
+
+    async resolveModel(model) {
+      if (!isValidModel(model)) {
+        throw new AskError(`Invalid model: ${model}`, 'Valid options: opus, sonnet, haiku');
+      }
+      const profile = await findProfile(model, config.region);
+      return {
+        id: profile.arn,
+        modelId: profile.modelId,
+        location: extractRegion(profile),
+      };
+    },
+
+    listModels: listProfileModels,
+
+    stream: streamCompletion,
+  };
+}
@@ -112,13 +112,19 @@ export async function saveProfileCache(
   await fs.rename(tmpPath, getCachePath());
 }
 
-export async function getCachedProfile(modelType: ModelType): Promise<InferenceProfile | null> {
+export async function getCachedProfile(
+  modelType: ModelType,
+  preferredRegion?: string,
+): Promise<InferenceProfile | null> {
   const cache = await loadProfileCache();
   if (!cache) return null;
 
   const entry = cache.profiles[modelType];
   if (!entry) return null;
 
+  // A different preferred region needs fresh discovery
+  if (preferredRegion && entry.region !== preferredRegion) return null;
+
   return {
     arn: entry.arn,
     modelId: entry.model_id,
@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import type { Turn } from '../types.ts';
+import { compactionPlan } from './compact.ts';
+
+describe('compactionPlan', () => {
+  const turns = (count: number, marks: Record<number, Partial<Turn>> = {}): Turn[] =>
+    Array.from({ length: count }, (_, i) => ({
+      number: i + 1,
+      role: i % 2 === 0 ? 'Human' : 'AI',
+      content: `turn ${i + 1}`,
+      ...marks[i + 1],
+    }));
+
+  test('keeps the last turns, starting on a question', () => {
+    const plan = compactionPlan(turns(8), 4);
+    expect(plan?.cut).toBe(4);
+    expect(plan?.summarized.map((turn) => turn.number)).toEqual([1, 2, 3, 4]);
+
+    // Four kept turns would start on an answer, so one more is kept
+    expect(compactionPlan(turns(7), 4)?.cut).toBe(2);
+  });
+
+  test('has nothing to compact when the cut reaches the first turn', () => {
+    expect(compactionPlan(turns(4), 4)).toBeUndefined();
+    expect(compactionPlan(turns(5), 4)).toBeUndefined();
+  });
+
+  test('has nothing to compact when every earlier turn is pinned or skipped', () => {
+    expect(compactionPlan(turns(8, { 1: { pin: true }, 3: { skip: true } }), 4)).toBeUndefined();
+
+    const plan = compactionPlan(turns(8, { 1: { pin: true } }), 4);
+    expect(plan?.summarized.map((turn) => turn.number)).toEqual([3, 4]);
+  });
+});
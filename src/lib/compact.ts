@@ -0,0 +1,203 @@
+import * as path from 'node:path';
+import type { Provider, ResolvedModel, Session, Turn } from '../types.ts';
+import { writeSession } from './alternates.ts';
+import type { Config } from './config.ts';
+import { AskError } from './errors.ts';
+import { output } from './output.ts';
+import { findTurnHeaders } from './parser.ts';
+import { contextTurns, markedExchanges, turnsToMessages } from './session.ts';
+import { costOf, priceFor, recordUsage } from './usage.ts';
+
+export const DEFAULT_KEEP = 4;
+
+const SUMMARY_PROMPT = `Summarize our conversation so far so it can replace the earlier turns.
+Keep every decision, requirement, constraint and open question, the names of files,
+functions and commands we discussed, and any code the rest of the work depends on.
+Drop pleasantries and superseded ideas. Write it as notes to yourself, not as a reply.`;
+
+const ACKNOWLEDGEMENT = "Understood. I'll continue from this summary.";
+
+export interface CompactOptions {
+  sessionPath: string;
+  session: Session;
+  keep: number;
+  provider: Provider;
+  model: ResolvedModel;
+  config: Config;
+  maxTokens: number;
+}
+
+/**
+ * Where to cut so the last `keep` turns (or a few more, to start on a
+ * question) stay, and the turns that go into the summary. Undefined when
+ * there's nothing to summarize: too few turns, or only pinned or skipped
+ * ones before the cut.
+ */
+export function compactionPlan(
+  turns: Turn[],
+  keep: number,
+): { cut: number; pinned: Set<number>; summarized: Turn[] } | undefined {
+  // The kept turns start with a question so roles keep alternating
+  let cut = Math.max(0, turns.length - keep);
+  while (cut > 0 && turns[cut]!.role !== 'Human') cut--;
+  if (cut === 0) return undefined;
+
+  const pinned = markedExchanges(turns, 'pin');
+  const summarized = turns.slice(0, cut).filter((_, i) => !pinned.has(i));
+  if (contextTurns(summarized).length === 0) return undefined;
+
+  return { cut, pinned, summarized };
+}
+
+/**
+ * Replace all but the last `keep` turns with a model-written summary.
+ * Pinned exchanges are kept as they are, after the summary. The original
+ * file is archived next to the session first.
+ */
+export async function compactSession(
+  options: CompactOptions,
+): Promise<{ archivePath: string; summarized: number }> {
+  const { sessionPath, session, keep, provider, model, config, maxTokens } = options;
+  const { turns } = session;
+
+  const plan = compactionPlan(turns, keep);
+  if (!plan) {
+    throw new AskError(
+      `Nothing to compact: no turns to summarize before the last ${keep} (pinned and skipped ones stay)`,
+      `Use a smaller --keep than ${keep}`,
+    );
+  }
+
+  const { cut, pinned, summarized } = plan;
+  const firstKept = turns[cut]!.number;
+
+  const messages = await turnsToMessages(summarized, { cache: config.cache });
+  messages.push({ role: 'user', content: [{ text: SUMMARY_PROMPT }] });
+
+  let summary = '';
+
+  for await (const event of provider.stream({
+    model: model.id,
+    messages,
+    maxTokens,
+    temperature: config.temperature,
+    system: session.system ?? config.system,
+    cache: config.cache,
+  })) {
+    switch (event.type) {
+      case 'chunk':
+        summary += event.text;
+        output.progress(
+          `${output.dim('Summarizing')} ${output.cyan(output.number(event.tokens))} ${output.dim('tokens')}`,
+        );
+        break;
+      case 'error':
+        throw event.error;
+      case 'end': {
+        const price = priceFor(model.modelId, config.prices);
+        await recordUsage({
+          timestamp: new Date().toISOString(),
+          session: path.resolve(sessionPath),
+          provider: provider.name,
+          model: model.modelId,
+          ...event.usage,
+          cost: price ? costOf(event.usage, price) : null,
+        });
+        break;
+      }
+    }
+  }
+
+  output.clearLine();
+
+  if (!summary.trim()) {
+    throw new AskError('The model returned an empty summary', 'The session was not changed');
+  }
+
+  const content = await Bun.file(sessionPath).text();
+  const archivePath = await nextArchivePath(sessionPath);
+  await Bun.write(archivePath, content);
+
+  const rewritten = rewriteSession(content, {
+    firstKept,
+    pinned: turns.filter((_, i) => i < cut && pinned.has(i)).map((turn) => turn.number),
+    summary: summary.trim(),
+    archive: path.relative(path.dirname(sessionPath), archivePath),
+    lastSummarized: turns[cut - 1]!.number,
+  });
+
+  await writeSession(sessionPath, rewritten);
+
+  return { archivePath, summarized: summarized.length };
+}
+
+/**
+ * Keep everything before the first turn (front matter, system prompt),
+ * add the summary exchange and renumber the pinned and kept turns after it
+ */
+function rewriteSession(
+  content: string,
+  details: {
+    firstKept: number;
+    pinned: number[];
+    summary: string;
+    archive: string;
+    lastSummarized: number;
+  },
+): string {
+  const lines = content.split('\n');
+  const headers = findTurnHeaders(lines);
+
+  const first = headers[0]!;
+  const preamble = lines.slice(0, first.lineIndex).join('\n').trimEnd();
+
+  const kept: string[] = [];
+  let number = 3;
+
+  headers.forEach((header, i) => {
+    if (header.number < details.firstKept && !details.pinned.includes(header.number)) return;
+
+    const end = headers[i + 1]?.lineIndex ?? lines.length;
+    const body = lines.slice(header.lineIndex + 1, end);
+
+    // Earlier turns end at the next header; keep one blank line between
+    while (header.number < details.firstKept && body.length > 0 && !body.at(-1)!.trim()) {
+      body.pop();
+    }
+
+    kept.push(`# [${number++}] ${header.role}`, ...body);
+    if (header.number < details.firstKept) kept.push('');
+  });
+
+  const summaryTurns = [
+    '# [1] Human',
+    '',
+    `<!-- compacted: ${details.archive}, turns 1-${details.lastSummarized} -->`,
+    'Summary of our conversation so far:',
+    '',
+    details.summary,
+    '',
+    '# [2] AI',
+    '',
+    '````markdown',
+    ACKNOWLEDGEMENT,
+    '````',
+  ].join('\n');
+
+  return [preamble, summaryTurns, kept.join('\n')].filter(Boolean).join('\n\n');
+}
+
+/**
+ * notes.md archives to notes-archive-1.md, then notes-archive-2.md, ...
+ */
+async function nextArchivePath(sessionPath: string): Promise<string> {
+  const ext = path.extname(sessionPath) || '.md';
+  const base = sessionPath.slice(0, sessionPath.length - path.extname(sessionPath).length);
+
+  for (let n = 1; ; n++) {
+    const candidate = `${base}-archive-${n}${ext}`;
+    if (!(await Bun.file(candidate).exists())) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { CompletionRequest, Provider, ProviderName } from '../types.ts';
+import { continuationRequest, streamAnswer } from './completion.ts';
+import type { Config } from './config.ts';
+import { SessionWriter } from './session.ts';
+
+const request: CompletionRequest = {
+  model: 'test',
+  messages: [{ role: 'user', content: [{ text: 'Hi' }] }],
+  maxTokens: 10,
+  temperature: 1,
+  thinking: 1024,
+};
+
+describe('continuationRequest', () => {
+  test('sends the partial answer without trailing whitespace or thinking', () => {
+    const continued = continuationRequest(request, 'First part\n\n');
+    expect(continued.thinking).toBeUndefined();
+    expect(continued.messages.at(-1)).toEqual({
+      role: 'assistant',
+      content: [{ text: 'First part' }],
+    });
+  });
+
+  test('leaves out an empty prefill', () => {
+    expect(continuationRequest(request, ' \n').messages).toEqual(request.messages);
+  });
+});
+
+describe('streamAnswer', () => {
+  let dir: string;
+  let homedir: ReturnType<typeof spyOn>;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ask-completion-'));
+    // Usage is recorded under the home directory
+    homedir = spyOn(os, 'homedir').mockReturnValue(dir);
+  });
+
+  afterAll(async () => {
+    homedir.mockRestore();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // A provider that cuts off every reply but the last
+  const fakeProvider = (name: ProviderName, replies: string[]) => {
+    const requests: CompletionRequest[] = [];
+    const provider: Provider = {
+      name,
+      resolveModel: async (model) => ({ id: model, modelId: model, location: 'test' }),
+      listModels: async () => [],
+      async *stream(current) {
+        requests.push(current);
+        const text = replies[requests.length - 1]!;
+        yield { type: 'chunk', text, tokens: 1 };
+        yield {
+          type: 'end',
+          usage: { input: 1, output: 1, cacheRead: 0, cacheWrite: 0 },
+          stopReason: requests.length < replies.length ? 'max_tokens' : 'end_turn',
+        };
+      },
+    };
+    return { provider, requests };
+  };
+
+  const answer = async (name: ProviderName, replies: string[]) => {
+    const sessionPath = path.join(dir, `${name}.md`);
+    await Bun.write(sessionPath, '# [1] Human\n\nHi\n');
+
+    const { provider, requests } = fakeProvider(name, replies);
+    await streamAnswer({
+      provider,
+      model: { id: 'test', modelId: 'test', location: 'test' },
+      config: { continuations: 2, prices: {} } as unknown as Config,
+      sessionPath,
+      request,
+      writer: SessionWriter.create(sessionPath, 2),
+      inputTokens: 1,
+    });
+
+    return { content: await Bun.file(sessionPath).text(), requests };
+  };
+
+  test('continues a cut-off answer without doubling the whitespace at the join', async () => {
+    const { content, requests } = await answer('anthropic', ['First part\n\n', '\n\nSecond part']);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1]!.messages.at(-1)?.content).toEqual([{ text: 'First part' }]);
+    expect(content).toContain('````markdown\nFirst part\n\nSecond part\n````');
+  });
+
+  test('stops at the continuation limit', async () => {
+    const { requests } = await answer('anthropic', ['a', 'b', 'c', 'd']);
+    expect(requests).toHaveLength(3);
+  });
+
+  test("doesn't continue with openai", async () => {
+    const { content, requests } = await answer('openai', ['First part', 'Second part']);
+
+    expect(requests).toHaveLength(1);
+    expect(content).toContain('````markdown\nFirst part\n````');
+  });
+});
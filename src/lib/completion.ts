@@ -0,0 +1,264 @@
+import * as path from 'node:path';
+import type { CompletionRequest, Provider, ResolvedModel, TokenUsage } from '../types.ts';
+import type { Config } from './config.ts';
+import { AskError } from './errors.ts';
+import { modelInfo } from './models.ts';
+import { output } from './output.ts';
+import { createProvider, isValidProvider, PROVIDERS } from './provider.ts';
+import type { SessionWriter } from './session.ts';
+import { costOf, priceFor, recordUsage } from './usage.ts';
+
+export interface Overrides {
+  model?: string;
+  provider?: string;
+  temperature?: number;
+}
+
+/**
+ * Apply command-line flags, which take precedence over front matter and config
+ */
+export function applyOverrides(config: Config, overrides: Overrides): Config {
+  const result = { ...config };
+
+  if (overrides.provider) {
+    if (!isValidProvider(overrides.provider)) {
+      throw new AskError(
+        `Invalid provider: ${overrides.provider}`,
+        `Valid options: ${PROVIDERS.join(', ')}`,
+      );
+    }
+    result.provider = overrides.provider;
+  }
+
+  if (overrides.model) {
+    result.model = overrides.model;
+  }
+
+  if (overrides.temperature !== undefined) {
+    if (
+      Number.isNaN(overrides.temperature) ||
+      overrides.temperature < 0 ||
+      overrides.temperature > 1
+    ) {
+      throw new AskError('Invalid temperature', 'Must be between 0.0 and 1.0');
+    }
+    result.temperature = overrides.temperature;
+  }
+
+  return result;
+}
+
+export const DEFAULT_MAX_TOKENS = 32000;
+
+/**
+ * Create the provider, resolve the model and print the model line
+ */
+export async function connectModel(
+  config: Config,
+): Promise<{ provider: Provider; model: ResolvedModel; maxTokens: number }> {
+  const provider = createProvider(config);
+  const model = await provider.resolveModel(config.model);
+
+  // The model can't answer at more than its own limit
+  const limit = modelInfo(model.modelId, config).maxTokens;
+  if (config.maxTokens && config.maxTokens > limit) {
+    output.warning(`maxTokens ${config.maxTokens} is over the model's ${limit}; using ${limit}`);
+  }
+  const maxTokens = Math.min(config.maxTokens ?? DEFAULT_MAX_TOKENS, limit);
+
+  if (config.thinking && config.thinking >= maxTokens) {
+    throw new AskError(
+      `Thinking budget (${config.thinking}) must be less than maxTokens (${maxTokens})`,
+      'Lower thinking or raise maxTokens',
+    );
+  }
+
+  output.meta([
+    ['Model', `${output.modelName(model.modelId)} ${output.dim(`(${model.location})`)}`],
+  ]);
+
+  return { provider, model, maxTokens };
+}
+
+export interface AnswerOptions {
+  provider: Provider;
+  model: ResolvedModel;
+  config: Config;
+  sessionPath: string;
+  request: CompletionRequest;
+  writer: SessionWriter;
+  // Estimated input, billed for a request interrupted before it reports usage
+  inputTokens: number;
+  // Partial answer already in the session, sent as a prefill
+  prefill?: string;
+}
+
+/**
+ * Stream an answer into the session, continuing it while it is cut off
+ * at maxTokens, then record usage and report the result
+ */
+export async function streamAnswer(options: AnswerOptions): Promise<void> {
+  const { provider, model, config, sessionPath, request, writer, inputTokens, prefill } = options;
+
+  let answer = prefill ?? '';
+  let finalTokens = 0;
+  let usage: TokenUsage | undefined;
+  let interrupted = false;
+  let continuations = 0;
+  let cost: number | null = null;
+
+  const abortController = new AbortController();
+
+  process.on('SIGINT', () => {
+    if (!interrupted) {
+      interrupted = true;
+      abortController.abort();
+    }
+  });
+
+  output.blank();
+  output.write(output.dim('Streaming... '));
+
+  let current = prefill === undefined ? request : continuationRequest(request, prefill);
+  // Tokens reported by earlier requests for this answer
+  let previousTokens = 0;
+  let ended = false;
+  // The prefill is sent without the whitespace the file already ends with,
+  // so the model's own leading whitespace would double it
+  let skipWhitespace = /\s$/.test(answer);
+
+  try {
+    while (true) {
+      let truncated = false;
+      previousTokens = finalTokens;
+      ended = false;
+
+      for await (const event of provider.stream(current, abortController.signal)) {
+        if (interrupted) break;
+
+        switch (event.type) {
+          case 'thinking':
+            await writer.writeThinking(event.text);
+            finalTokens = previousTokens + event.tokens;
+            output.progress(
+              `${output.dim('Thinking')} ${output.cyan(output.number(finalTokens))} ${output.dim('tokens')}`,
+            );
+            break;
+          case 'chunk': {
+            const text = skipWhitespace ? event.text.trimStart() : event.text;
+            if (text) skipWhitespace = false;
+            await writer.write(text);
+            answer += text;
+            finalTokens = previousTokens + event.tokens;
+            output.progress(
+              `${output.dim('Streaming')} ${output.cyan(output.number(finalTokens))} ${output.dim('tokens')}`,
+            );
+            break;
+          }
+          case 'error':
+            if (!interrupted) {
+              throw event.error;
+            }
+            break;
+          case 'end':
+            ended = true;
+            usage = addUsage(usage, event.usage);
+            finalTokens = previousTokens + event.usage.output;
+            truncated = event.stopReason === 'max_tokens';
+            break;
+        }
+      }
+
+      // OpenAI-compatible servers answer a trailing assistant message anew
+      // rather than continuing it
+      const canContinue = provider.name !== 'openai' && continuations < config.continuations;
+
+      if (interrupted || !truncated || !answer.trim() || !canContinue) {
+        if (truncated && !interrupted) {
+          output.clearLine();
+          output.warning('Answer cut off at maxTokens');
+        }
+        break;
+      }
+
+      continuations++;
+      current = continuationRequest(request, answer);
+      skipWhitespace = /\s$/.test(answer);
+    }
+
+    await writer.end(interrupted);
+  } finally {
+    // Earlier requests are billed even when a later one fails; an
+    // interrupted one never reports usage, so estimate what was sent
+    if (interrupted && !ended) {
+      usage = addUsage(usage, {
+        input: inputTokens,
+        output: finalTokens - previousTokens,
+        cacheRead: 0,
+        cacheWrite: 0,
+      });
+    }
+
+    if (usage) {
+      const price = priceFor(model.modelId, config.prices);
+      cost = price ? costOf(usage, price) : null;
+      await recordUsage({
+        timestamp: new Date().toISOString(),
+        session: path.resolve(sessionPath),
+        provider: provider.name,
+        model: model.modelId,
+        ...usage,
+        cost,
+      });
+    }
+  }
+
+  output.clearLine();
+  if (interrupted) {
+    output.warning(`Interrupted at ${output.cyan(output.number(finalTokens))} tokens`);
+  } else {
+    const details = [`${output.cyan(output.number(finalTokens))} tokens`];
+    if (continuations > 0) {
+      details.push(`${continuations} continuation${continuations !== 1 ? 's' : ''}`);
+    }
+    if (usage && (usage.cacheRead > 0 || usage.cacheWrite > 0)) {
+      details.push(
+        `cache ${output.number(usage.cacheRead)} read / ${output.number(usage.cacheWrite)} written`,
+      );
+    }
+    if (cost !== null) {
+      details.push(output.cost(cost));
+    }
+    output.success(`Done ${output.dim('·')} ${details.join(` ${output.dim('·')} `)}`);
+  }
+}
+
+/**
+ * Ask for the rest of a partial answer by sending it as an assistant prefill.
+ * Thinking is off: a prefilled turn can't start with a thinking block.
+ */
+export function continuationRequest(
+  request: CompletionRequest,
+  partial: string,
+): CompletionRequest {
+  const text = partial.trimEnd();
+
+  return {
+    ...request,
+    thinking: undefined,
+    // The API rejects prefills ending in whitespace, and empty ones
+    messages: text
+      ? [...request.messages, { role: 'assistant', content: [{ text }] }]
+      : request.messages,
+  };
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  if (!total) return { ...usage };
+  return {
+    input: total.input + usage.input,
+    output: total.output + usage.output,
+    cacheRead: total.cacheRead + usage.cacheRead,
+    cacheWrite: total.cacheWrite + usage.cacheWrite,
+  };
+}
@@ -2,6 +2,7 @@ import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { z } from 'zod';
+import { AskError } from './errors.ts';
 
 /**
  * Default exclude patterns organized by category
@@ -55,7 +56,7 @@ const DEFAULT_EXCLUDE_GROUPS = [
   },
   {
     name: 'Project files',
-    patterns: ['.gitignore', '.dockerignore', 'LICENSE', 'LICENSE.*', 'session.md'],
+    patterns: ['.gitignore', '.dockerignore', 'LICENSE', 'LICENSE.*', 'session.md', '.ask/**'],
   },
 ] as const;
 
@@ -73,18 +74,114 @@ function getStandardPatterns(): Set<string> {
   return new Set(getDefaultExcludePatterns());
 }
 
+const PriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  cacheRead: z.number().nonnegative().optional(),
+  cacheWrite: z.number().nonnegative().optional(),
+});
+
+export type Price = z.infer<typeof PriceSchema>;
+
+/**
+ * USD per million tokens, keyed by a substring of the model ID
+ */
+const DEFAULT_PRICES: Record<string, Price> = {
+  'opus-4-5': { input: 5, output: 25 },
+  opus: { input: 15, output: 75 },
+  sonnet: { input: 3, output: 15 },
+  haiku: { input: 1, output: 5 },
+};
+
 export const ConfigSchema = z.object({
-  model: z.enum(['opus', 'sonnet', 'haiku']).default('opus'),
+  provider: z.enum(['bedrock', 'anthropic', 'openai']).default('bedrock'),
+  endpoint: z.url().optional(),
+  // opus/sonnet/haiku, or a provider-specific model name
+  model: z.string().min(1).default('opus'),
   temperature: z.number().min(0).max(1).default(1.0),
   maxTokens: z.number().int().positive().max(200000).optional(),
   region: z.string().optional(),
+  system: z.string().optional(),
+  thinking: z.number().int().min(1024).optional(),
+  cache: z.boolean().default(true),
+  // Follow-up requests when an answer hits maxTokens
+  continuations: z.number().int().min(0).max(10).default(2),
+  // Compact the session before asking when input exceeds this many tokens
+  autoCompact: z.number().int().positive().optional(),
+  // How to shrink input that won't fit the context window
+  trim: z.enum(['oldest', 'expansions', 'elide', 'off']).default('elide'),
+  // Override the model's context window, e.g. for a local server
+  contextWindow: z.number().int().positive().optional(),
   filter: z.boolean().default(true),
+  // Skip files .gitignore, .git/info/exclude and .askignore rule out when expanding directories
+  ignoreFiles: z.boolean().default(true),
   web: z.boolean().default(true),
+  prices: z.record(z.string(), PriceSchema).default(DEFAULT_PRICES),
   exclude: z.array(z.string()).default(getDefaultExcludePatterns()),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+/**
+ * Settings a session may declare in its front matter.
+ * Exclude patterns add to the configured list rather than replacing it.
+ * forkedFrom and forkedAt record where `ask fork` branched the session.
+ */
+export const SessionSettingsSchema = z
+  .object({
+    provider: z.enum(['bedrock', 'anthropic', 'openai']),
+    endpoint: z.url(),
+    model: z.string().min(1),
+    temperature: z.number().min(0).max(1),
+    maxTokens: z.number().int().positive().max(200000),
+    region: z.string(),
+    system: z.string(),
+    thinking: z.number().int().min(1024),
+    cache: z.boolean(),
+    continuations: z.number().int().min(0).max(10),
+    autoCompact: z.number().int().positive(),
+    // YAML reads a bare off as false
+    trim: z.preprocess(
+      (value) => (value === false ? 'off' : value),
+      z.enum(['oldest', 'expansions', 'elide', 'off']),
+    ),
+    contextWindow: z.number().int().positive(),
+    filter: z.boolean(),
+    ignoreFiles: z.boolean(),
+    web: z.boolean(),
+    exclude: z.array(z.string()),
+    forkedFrom: z.string(),
+    forkedAt: z.number().int().positive(),
+  })
+  .partial()
+  .strict();
+
+export type SessionSettings = z.infer<typeof SessionSettingsSchema>;
+
+/**
+ * Merge session front matter over global config
+ */
+export function applySessionSettings(config: Config, frontMatter: Record<string, unknown>): Config {
+  const result = SessionSettingsSchema.safeParse(frontMatter);
+
+  if (!result.success) {
+    const issue = result.error.issues[0]!;
+    const field = issue.path.length > 0 ? ` ${issue.path.join('.')}` : '';
+    throw new AskError(
+      `Invalid front matter${field}: ${issue.message}`,
+      'Valid keys: provider, endpoint, model, temperature, maxTokens, region, system, thinking, cache, continuations, autoCompact, trim, contextWindow, filter, ignoreFiles, web, exclude, forkedFrom, forkedAt',
+    );
+  }
+
+  const { exclude, forkedFrom: _from, forkedAt: _at, ...settings } = result.data;
+
+  return {
+    ...config,
+    ...settings,
+    exclude: exclude ? [...config.exclude, ...exclude] : config.exclude,
+  };
+}
+
 export function getConfigDir(): string {
   return path.join(os.homedir(), '.ask');
 }
@@ -112,7 +209,10 @@ function stripJsonComments(text: string): string {
 function formatConfigWithComments(config: Config): string {
   const lines = [
     '{',
-    '  // Model selection: opus (default), sonnet, or haiku',
+    '  // Provider: bedrock (default), anthropic, or openai (any OpenAI-compatible server)',
+    `  "provider": "${config.provider}",`,
+    '',
+    '  // Model selection: opus (default), sonnet, haiku, or a model name for openai',
     `  "model": "${config.model}",`,
     '',
     '  // Temperature: 0.0 (deterministic) to 1.0 (creative)',
@@ -121,6 +221,19 @@ function formatConfigWithComments(config: Config): string {
     '  // Filter comments and headers from expanded files',
     `  "filter": ${config.filter},`,
     '',
+    '  // Skip files ignored by .gitignore, .git/info/exclude and .askignore in directory references',
+    `  "ignoreFiles": ${config.ignoreFiles},`,
+    '',
+    '  // Prompt caching for expanded content and earlier turns',
+    `  "cache": ${config.cache},`,
+    '',
+    '  // Continue answers cut off at maxTokens, up to this many times (0 to disable; not for openai)',
+    `  "continuations": ${config.continuations},`,
+    '',
+    '  // Input over the context window: elide (stub large expansions), expansions (drop them',
+    '  // from earlier turns), oldest (drop earliest turns), or off',
+    `  "trim": "${config.trim}",`,
+    '',
     '  // Fetch and expand [[https://...]] URL references',
     `  "web": ${config.web},`,
   ];
@@ -131,12 +244,58 @@ function formatConfigWithComments(config: Config): string {
     lines.push(`  "maxTokens": ${config.maxTokens},`);
   }
 
+  if (config.endpoint !== undefined) {
+    lines.push('');
+    lines.push('  // Base URL for the anthropic or openai provider');
+    lines.push(`  "endpoint": "${config.endpoint}",`);
+  }
+
   if (config.region !== undefined) {
     lines.push('');
     lines.push('  // Preferred AWS region');
     lines.push(`  "region": "${config.region}",`);
   }
 
+  if (config.thinking !== undefined) {
+    lines.push('');
+    lines.push('  // Extended thinking budget in tokens');
+    lines.push(`  "thinking": ${config.thinking},`);
+  }
+
+  if (config.autoCompact !== undefined) {
+    lines.push('');
+    lines.push('  // Compact the session when input exceeds this many tokens');
+    lines.push(`  "autoCompact": ${config.autoCompact},`);
+  }
+
+  if (config.contextWindow !== undefined) {
+    lines.push('');
+    lines.push("  // Context window in tokens, overriding the model's known limit");
+    lines.push(`  "contextWindow": ${config.contextWindow},`);
+  }
+
+  if (config.system !== undefined) {
+    lines.push('');
+    lines.push('  // Default system prompt (a session # System section takes precedence)');
+    lines.push(`  "system": ${JSON.stringify(config.system)},`);
+  }
+
+  // Prices
+  lines.push('');
+  lines.push('  // Prices in USD per million tokens, matched against model IDs (longest key wins)');
+  lines.push('  "prices": {');
+  const priceLines = Object.entries(config.prices).map(([key, price]) => {
+    const fields = Object.entries(price)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => `"${field}": ${value}`)
+      .join(', ');
+    return `    "${key}": { ${fields} }`;
+  });
+  if (priceLines.length > 0) {
+    lines.push(priceLines.join(',\n'));
+  }
+  lines.push('  },');
+
   // Exclude array
   lines.push('');
   lines.push('  // File patterns to exclude from expansion');
@@ -23,7 +23,10 @@ export class AskError extends Error {
     }
 
     if (message.includes('maximum tokens')) {
-      return new AskError('Token limit exceeded', 'Try a shorter conversation or different model');
+      return new AskError(
+        'Token limit exceeded',
+        "Run 'ask compact', or set contextWindow if the model accepts less than ask assumes",
+      );
     }
 
     if (message.includes('conversation must start with a user message')) {
@@ -1,14 +1,28 @@
+import { sliceFile, splitPart } from './anchor.ts';
+import {
+  documentFormatFor,
+  formatSize,
+  imageFormatFor,
+  loadDocument,
+  loadImage,
+} from './attachments.ts';
 import type { Config } from './config.ts';
 import { loadConfig } from './config.ts';
 import { filterContent, shouldFilter } from './filter.ts';
+import { expandGit, isGitReference } from './git.ts';
+import { createIgnoreChecker, type IgnoredPath } from './ignore.ts';
 import { languageFor } from './languages.ts';
 import { output } from './output.ts';
 import { shouldExclude } from './patterns.ts';
+import { findSymbol } from './symbols.ts';
 import { expandUrl, isUrl } from './url.ts';
 
-function fenceFor(content: string): string {
+/**
+ * A backtick fence longer than any run of backticks in the content
+ */
+export function fenceFor(content: string, minLength = 3): string {
   const pattern = /`{3,}/g;
-  let maxLength = 2;
+  let maxLength = minLength - 1;
 
   for (const match of content.matchAll(pattern)) {
     maxLength = Math.max(maxLength, match[0].length);
@@ -17,6 +31,9 @@ function fenceFor(content: string): string {
   return '`'.repeat(maxLength + 1);
 }
 
+// Characters that make a reference a glob pattern
+const GLOB_CHARS = /[*?[{]/;
+
 async function resolveFilePath(path: string): Promise<string> {
   const file = Bun.file(path);
   if (await file.exists()) {
@@ -47,20 +64,23 @@ async function isBinaryFile(file: ReturnType<typeof Bun.file>): Promise<boolean>
 
 export async function expandReferences(
   content: string,
-): Promise<{ expanded: string; fileCount: number }> {
+  sessionConfig?: Config,
+): Promise<{ expanded: string; fileCount: number; ignored: IgnoredPath[] }> {
   const pattern = /\[\[([^\]\u200B]+)\]\]/g;
   let expanded = content;
   let fileCount = 0;
+  const ignored: IgnoredPath[] = [];
 
-  const config = await loadConfig();
+  const config = sessionConfig ?? (await loadConfig());
 
   for (const [match, ref] of content.matchAll(pattern)) {
     if (!ref) continue;
 
     try {
-      const { text, files } = await expandReference(ref, config);
-      expanded = expanded.replace(match, () => text);
-      fileCount += files;
+      const result = await expandReference(ref, config);
+      expanded = expanded.replace(match, () => result.text);
+      fileCount += result.files;
+      ignored.push(...(result.ignored ?? []));
     } catch (error) {
       if (!isUrl(ref)) {
         const message = error instanceof Error ? error.message : 'Unknown error';
@@ -71,17 +91,32 @@ export async function expandReferences(
     }
   }
 
-  return { expanded, fileCount };
+  return { expanded, fileCount, ignored };
 }
 
 async function expandReference(
   ref: string,
   config: Config,
-): Promise<{ text: string; files: number }> {
+): Promise<{ text: string; files: number; ignored?: IgnoredPath[] }> {
   if (isUrl(ref)) {
     return expandUrlReference(ref, config);
   }
 
+  if (isGitReference(ref)) {
+    return expandGitReference(ref.slice('git:'.length).trim());
+  }
+
+  // Globs other than the dir/ and dir/**/ forms, unless a file has that name
+  if (GLOB_CHARS.test(ref) && !ref.endsWith('/') && !(await Bun.file(ref).exists())) {
+    return expandGlob(ref, config);
+  }
+
+  // A # or :: names part of a file, unless the file's name contains one
+  const { path, part } = await splitPart(ref);
+  if (part && !(await Bun.file(ref).exists())) {
+    return expandFile(path, config, part);
+  }
+
   const isRecursive = ref.endsWith('/**/');
   const isDirectory = ref.endsWith('/') || isRecursive;
 
@@ -101,9 +136,46 @@ async function expandReference(
     return expandDirectory(dir, isRecursive, config);
   }
 
+  if (imageFormatFor(ref)) {
+    return expandImage(ref);
+  }
+
+  if (documentFormatFor(ref)) {
+    return expandDocument(ref);
+  }
+
   return expandFile(ref, config);
 }
 
+/**
+ * Images stay as a marker; the file is read and sent when the turn is
+ */
+async function expandImage(path: string): Promise<{ text: string; files: number }> {
+  const resolvedPath = await resolveFilePath(path);
+
+  // Validate now so problems surface at expansion time
+  await loadImage(resolvedPath);
+
+  return { text: `\n<!-- image: ${resolvedPath} -->\n`, files: 1 };
+}
+
+/**
+ * Documents are sent as document blocks; the session keeps a short summary
+ */
+async function expandDocument(path: string): Promise<{ text: string; files: number }> {
+  const resolvedPath = await resolveFilePath(path);
+  const { format, bytes } = await loadDocument(resolvedPath);
+  const filename = resolvedPath.split('/').pop() ?? resolvedPath;
+
+  const lines = [
+    `<!-- document: ${resolvedPath} -->`,
+    `*${filename} · ${format} · ${formatSize(bytes.length)}*`,
+    '<!-- /document -->',
+  ];
+
+  return { text: `\n${lines.join('\n')}\n`, files: 1 };
+}
+
 async function expandUrlReference(
   url: string,
   config: Config,
@@ -130,7 +202,41 @@ async function expandUrlReference(
   return { text: `\n${lines.join('\n')}\n`, files: 1 };
 }
 
-async function expandFile(path: string, config: Config): Promise<{ text: string; files: number }> {
+/**
+ * Command output in a diff fence, re-run on refresh like a file is re-read
+ */
+async function expandGitReference(spec: string): Promise<{ text: string; files: number }> {
+  const result = await expandGit(spec);
+
+  if (result.content.length > 20_000) {
+    const estimatedTokens = Math.ceil(result.content.length / 4);
+    output.warning(
+      `Large output from ${result.command} (≈${estimatedTokens.toLocaleString()} tokens)`,
+    );
+  }
+
+  // Escape expansion syntax
+  const content = result.content.replace(/\[\[/g, '[\u200B[').replace(/\]\]/g, ']\u200B]');
+  const fence = fenceFor(content);
+
+  const lines = [`<!-- git: ${spec} -->`, `### ${result.command}`];
+
+  if (content) {
+    lines.push(`${fence}${result.isPatch ? 'diff' : ''}`, content, fence);
+  } else {
+    lines.push('', '*(no changes)*');
+  }
+
+  lines.push('<!-- /git -->');
+
+  return { text: `\n${lines.join('\n')}\n`, files: 1 };
+}
+
+async function expandFile(
+  path: string,
+  config: Config,
+  part?: string,
+): Promise<{ text: string; files: number }> {
   const resolvedPath = await resolveFilePath(path);
   const file = Bun.file(resolvedPath);
 
@@ -139,8 +245,16 @@ async function expandFile(path: string, config: Config): Promise<{ text: string;
   }
 
   let content = await file.text();
-
-  if (shouldFilter(config)) {
+  let title = resolvedPath;
+
+  // Slices keep their comments so the line numbers stay true
+  if (part) {
+    const slice = part.startsWith('::')
+      ? findSymbol(content, part.slice(2), resolvedPath)
+      : sliceFile(content, part.slice(1), resolvedPath);
+    content = slice.content;
+    title = `${resolvedPath} (lines ${slice.start}-${slice.end})`;
+  } else if (shouldFilter(config)) {
     content = filterContent(content, resolvedPath);
   }
 
@@ -152,8 +266,8 @@ async function expandFile(path: string, config: Config): Promise<{ text: string;
   const fence = fenceFor(content);
 
   const lines = [
-    `<!-- file: ${resolvedPath} -->`,
-    `### ${resolvedPath}`,
+    `<!-- file: ${resolvedPath}${part ?? ''} -->`,
+    `### ${title}`,
     `${fence}${lang}`,
     content,
     fence,
@@ -170,12 +284,10 @@ async function expandDirectory(
   path: string,
   recursive: boolean,
   config: Config,
-): Promise<{ text: string; files: number }> {
+): Promise<{ text: string; files: number; ignored: IgnoredPath[] }> {
   const pattern = recursive ? `${path}/**/*` : `${path}/*`;
   const glob = new Bun.Glob(pattern);
 
-  const sections: string[] = [];
-  let fileCount = 0;
   let hasSubdirs = false;
 
   const { exclude } = config;
@@ -198,30 +310,20 @@ async function expandDirectory(
     filePaths.push(filePath);
   }
 
-  // Sort alphabetically with numeric awareness
-  filePaths.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
-
-  // Expand in sorted order
-  for (const filePath of filePaths) {
-    try {
-      const { text } = await expandFile(filePath, config);
-      sections.push(text);
-      fileCount++;
-    } catch {
-      // Skip files that can't be expanded (binary, etc.)
-    }
-  }
+  const { sections, fileCount, ignored } = await expandFiles(filePaths, config);
 
   if (sections.length === 0) {
     if (hasSubdirs) {
       return {
         text: `\n### ${path}/\n\n*(contains only subdirectories - use [[${path}/**/]] for recursive)*\n`,
         files: 0,
+        ignored,
       };
     }
     return {
       text: `\n### ${path}/\n\n*(empty directory)*\n`,
       files: 0,
+      ignored,
     };
   }
 
@@ -232,6 +334,75 @@ async function expandDirectory(
   return {
     text: wrapped,
     files: fileCount,
+    ignored,
   };
 }
 
+/**
+ * Expand files in sorted order, skipping any that can't be (binary, etc.)
+ * and any the ignore files rule out
+ */
+async function expandFiles(
+  filePaths: string[],
+  config: Config,
+): Promise<{ sections: string[]; fileCount: number; ignored: IgnoredPath[] }> {
+  const sections: string[] = [];
+  const ignored = new Map<string, IgnoredPath>();
+  const ignoredBy = config.ignoreFiles ? createIgnoreChecker() : undefined;
+
+  // Sort alphabetically with numeric awareness
+  filePaths.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  for (const filePath of filePaths) {
+    const rule = await ignoredBy?.(filePath);
+    if (rule) {
+      ignored.set(rule.path, rule);
+      continue;
+    }
+
+    try {
+      const { text } = await expandFile(filePath, config);
+      sections.push(text);
+    } catch {
+      // Skip files that can't be expanded
+    }
+  }
+
+  return { sections, fileCount: sections.length, ignored: [...ignored.values()] };
+}
+
+/**
+ * A Bun.Glob pattern, optionally followed by !patterns to leave out:
+ * [[src/**\/*.ts !**\/*.test.ts]]
+ */
+async function expandGlob(
+  ref: string,
+  config: Config,
+): Promise<{ text: string; files: number; ignored: IgnoredPath[] }> {
+  const [pattern = '', ...rest] = ref.trim().split(/\s+/);
+
+  const unexpected = rest.find((part) => !part.startsWith('!'));
+  if (unexpected) {
+    throw new Error(`Expected a !pattern to exclude, got ${unexpected}`);
+  }
+  const negations = rest.map((part) => part.slice(1));
+
+  const filePaths: string[] = [];
+  for await (const filePath of new Bun.Glob(pattern).scan({ onlyFiles: true })) {
+    if (shouldExclude(filePath, config.exclude) || shouldExclude(filePath, negations)) continue;
+    filePaths.push(filePath);
+  }
+
+  const { sections, fileCount, ignored } = await expandFiles(filePaths, config);
+  const label = [pattern, ...rest].join(' ');
+
+  // Kept in markers even when empty, so refresh picks up files added later.
+  // The empty marker counts as a write, like git's *(no changes)*.
+  const content = sections.length > 0 ? sections.join('').trim() : `*(no matching files)*`;
+
+  return {
+    text: `<!-- glob: ${label} -->\n${content}\n<!-- /glob -->`,
+    files: fileCount || 1,
+    ignored,
+  };
+}
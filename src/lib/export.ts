@@ -0,0 +1,96 @@
+import type { CompletionRequest, Session } from '../types.ts';
+import { toAnthropicRequest } from './anthropic.ts';
+import { DEFAULT_MAX_TOKENS } from './completion.ts';
+import type { Config } from './config.ts';
+import { AskError } from './errors.ts';
+import { renderSessionHtml } from './html.ts';
+import { API_MODEL_IDS, isValidModel, modelInfo } from './models.ts';
+import { toOpenAIRequest } from './openai.ts';
+import { contextTurns, turnsToMessages } from './session.ts';
+
+export const EXPORT_FORMATS = ['json', 'jsonl', 'html', 'anthropic', 'openai'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isValidExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * The request that produced the last answer: every turn up to the last
+ * question, as `ask` would send it
+ */
+async function lastRequest(
+  session: Session,
+  config: Config,
+  model?: string,
+): Promise<CompletionRequest> {
+  if (session.lastHumanTurnIndex === -1) {
+    throw new AskError('No human turn to build a request from');
+  }
+
+  const turns = session.turns.slice(0, session.lastHumanTurnIndex + 1);
+
+  // A model given for the export is used as is; an alias becomes the
+  // first-party ID, without asking the configured provider
+  const modelId =
+    model ?? (isValidModel(config.model) ? API_MODEL_IDS[config.model] : config.model);
+  const { maxTokens } = modelInfo(modelId, config);
+
+  return {
+    model: modelId,
+    messages: await turnsToMessages(turns),
+    maxTokens: Math.min(config.maxTokens ?? DEFAULT_MAX_TOKENS, maxTokens),
+    temperature: config.temperature,
+    system: session.system ?? config.system,
+    thinking: config.thinking,
+  };
+}
+
+/**
+ * One line per session in the chat dataset shape most eval and
+ * fine-tuning tools read; skipped turns are left out
+ */
+function toDatasetLine(session: Session, config: Config): string {
+  const system = session.system ?? config.system;
+
+  const messages = [
+    ...(system ? [{ role: 'system', content: system }] : []),
+    ...contextTurns(session.turns).map((turn) => ({
+      role: turn.role === 'Human' ? 'user' : 'assistant',
+      content: turn.content,
+    })),
+  ];
+
+  return JSON.stringify({ messages });
+}
+
+export async function exportSession(
+  session: Session,
+  format: ExportFormat,
+  options: { config: Config; title: string; model?: string },
+): Promise<string> {
+  const { config, title, model } = options;
+
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(
+        {
+          title,
+          ...(session.system && { system: session.system }),
+          settings: session.frontMatter,
+          turns: session.turns,
+        },
+        null,
+        2,
+      )}\n`;
+    case 'jsonl':
+      return `${toDatasetLine(session, config)}\n`;
+    case 'html':
+      return renderSessionHtml(session, title);
+    case 'anthropic':
+      return `${JSON.stringify(toAnthropicRequest(await lastRequest(session, config, model)), null, 2)}\n`;
+    case 'openai':
+      return `${JSON.stringify(toOpenAIRequest(await lastRequest(session, config, model)), null, 2)}\n`;
+  }
+}
@@ -0,0 +1,211 @@
+import { inflateRawSync, inflateSync } from 'node:zlib';
+import type { DocumentFormat } from '../types.ts';
+
+// Token estimates read a document's text again each time a request is trimmed
+const extracted = new WeakMap<Uint8Array, string>();
+
+/**
+ * Best-effort plain text for providers that can't take documents directly
+ */
+export function extractDocumentText(format: DocumentFormat, bytes: Uint8Array): string {
+  let text = extracted.get(bytes);
+  if (text === undefined) {
+    text = extractText(format, bytes).trim() || '(no extractable text)';
+    extracted.set(bytes, text);
+  }
+  return text;
+}
+
+function extractText(format: DocumentFormat, bytes: Uint8Array): string {
+  switch (format) {
+    case 'csv':
+      return new TextDecoder().decode(bytes);
+    case 'pdf':
+      return extractPdfText(bytes);
+    case 'docx':
+      return extractDocxText(bytes);
+    case 'xlsx':
+      return extractXlsxText(bytes);
+  }
+}
+
+/**
+ * Text stand-in for a document block
+ */
+export function documentAsText(document: {
+  format: DocumentFormat;
+  name: string;
+  source: { bytes: Uint8Array };
+}): string {
+  const text = extractDocumentText(document.format, document.source.bytes);
+  return `<document name="${document.name}.${document.format}">\n${text}\n</document>`;
+}
+
+/**
+ * Pull text-showing operators out of the page content streams.
+ * Handles literal strings in simple fonts; CID-encoded text is lost.
+ */
+function extractPdfText(bytes: Uint8Array): string {
+  const raw = Buffer.from(bytes).toString('latin1');
+  const lines: string[] = [];
+
+  for (const match of raw.matchAll(/<<(.*?)>>\s*stream\r?\n/gs)) {
+    const dict = match[1]!;
+    const start = match.index! + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) continue;
+
+    let content = raw.slice(start, end);
+
+    if (dict.includes('/FlateDecode')) {
+      try {
+        content = inflateSync(Buffer.from(content, 'latin1')).toString('latin1');
+      } catch {
+        continue;
+      }
+    } else if (dict.includes('/Filter')) {
+      continue;
+    }
+
+    let line = '';
+    for (const op of content.matchAll(
+      /\[((?:[^\]\\]|\\.)*)\]\s*TJ|\(((?:[^)\\]|\\.)*)\)\s*(Tj|'|")|(T\*|Td|TD|ET)(?![A-Za-z])/g,
+    )) {
+      if (op[1] !== undefined) {
+        for (const part of op[1].matchAll(/\(((?:[^)\\]|\\.)*)\)/g)) {
+          line += decodePdfString(part[1]!);
+        }
+      } else if (op[2] !== undefined) {
+        line += decodePdfString(op[2]);
+      } else if (line) {
+        lines.push(line);
+        line = '';
+      }
+    }
+    if (line) lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+function decodePdfString(value: string): string {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, esc: string) => {
+    const named: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '' };
+    if (esc in named) return named[esc]!;
+    if (/^[0-7]+$/.test(esc)) return String.fromCharCode(parseInt(esc, 8));
+    return esc;
+  });
+}
+
+function extractDocxText(bytes: Uint8Array): string {
+  const xml = readZipEntry(bytes, 'word/document.xml');
+  if (!xml) return '';
+
+  return xml
+    .split(/<\/w:p>/)
+    .map((paragraph) =>
+      Array.from(paragraph.matchAll(/<w:t[^>]*>([^<]*)<\/w:t>/g))
+        .map((m) => decodeXml(m[1]!))
+        .join(''),
+    )
+    .join('\n');
+}
+
+function extractXlsxText(bytes: Uint8Array): string {
+  const shared = Array.from(
+    (readZipEntry(bytes, 'xl/sharedStrings.xml') ?? '').matchAll(/<si>(.*?)<\/si>/gs),
+  ).map((m) =>
+    Array.from(m[1]!.matchAll(/<t[^>]*>([^<]*)<\/t>/g))
+      .map((t) => decodeXml(t[1]!))
+      .join(''),
+  );
+
+  const sheets: string[] = [];
+
+  for (let n = 1; ; n++) {
+    const sheet = readZipEntry(bytes, `xl/worksheets/sheet${n}.xml`);
+    if (!sheet) break;
+
+    const rows = Array.from(sheet.matchAll(/<row[^>]*>(.*?)<\/row>/gs)).map((row) =>
+      Array.from(row[1]!.matchAll(/<c([^>]*?)(?:\/>|>(.*?)<\/c>)/gs))
+        .map((cell) => {
+          const value = cell[2]?.match(/<v>([^<]*)<\/v>/)?.[1] ?? '';
+          const inline = cell[2]?.match(/<t[^>]*>([^<]*)<\/t>/)?.[1];
+          if (/t="s"/.test(cell[1]!)) return shared[parseInt(value, 10)] ?? '';
+          return decodeXml(inline ?? value);
+        })
+        .join(','),
+    );
+
+    sheets.push(`# Sheet ${n}\n${rows.join('\n')}`);
+  }
+
+  return sheets.join('\n\n');
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read one entry from a zip archive via its central directory. A
+ * truncated or corrupt archive reads as missing.
+ */
+function readZipEntry(bytes: Uint8Array, name: string): string | undefined {
+  const buf = Buffer.from(bytes);
+
+  // Whether a record of this many bytes fits at an offset
+  const fits = (offset: number, length: number) => offset >= 0 && offset + length <= buf.length;
+
+  // End of central directory record, searched from the end
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return undefined;
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (!fits(offset, 46) || buf.readUInt32LE(offset) !== 0x02014b50) return undefined;
+
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    if (!fits(offset + 46, nameLength)) return undefined;
+    const entryName = buf.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      if (!fits(localOffset, 30)) return undefined;
+      const localNameLength = buf.readUInt16LE(localOffset + 26);
+      const localExtraLength = buf.readUInt16LE(localOffset + 28);
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+      if (!fits(dataStart, compressedSize)) return undefined;
+      const data = buf.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data.toString('utf8');
+      if (method !== 8) return undefined;
+      try {
+        return inflateRawSync(data).toString('utf8');
+      } catch {
+        return undefined;
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return undefined;
+}
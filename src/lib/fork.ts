@@ -0,0 +1,59 @@
+import * as path from 'node:path';
+import { AskError } from './errors.ts';
+import { extractFrontMatter } from './frontmatter.ts';
+import { findTurnHeaders } from './parser.ts';
+
+/**
+ * Default name for a fork: notes.md at turn 4 becomes notes-fork-4.md
+ */
+export function forkPathFor(sessionPath: string, turnNumber: number): string {
+  const ext = path.extname(sessionPath) || '.md';
+  const base = sessionPath.slice(0, sessionPath.length - path.extname(sessionPath).length);
+  return `${base}-fork-${turnNumber}${ext}`;
+}
+
+/**
+ * Build a new session from turns 1..N of another, recording the parent
+ * file and turn in its front matter. Forking at an AI turn adds an empty
+ * human turn; forking at a human turn leaves that question to edit.
+ */
+export function forkSession(
+  content: string,
+  turnNumber: number,
+  sessionPath: string,
+  forkPath: string,
+): string {
+  const lines = content.split('\n');
+  const { bodyStart } = extractFrontMatter(lines);
+  const headers = findTurnHeaders(lines);
+
+  const index = headers.findIndex((h) => h.number === turnNumber);
+  if (index === -1) {
+    const last = headers[headers.length - 1]?.number ?? 0;
+    throw new AskError(
+      `Turn ${turnNumber} not found`,
+      last > 0 ? `Choose a turn from 1 to ${last}` : 'The session has no turns yet',
+    );
+  }
+
+  const header = headers[index]!;
+  const end = headers[index + 1]?.lineIndex ?? lines.length;
+
+  // Front matter without an earlier fork's origin
+  const frontMatter = lines
+    .slice(1, Math.max(1, bodyStart - 1))
+    .filter((line) => !/^forked(From|At):/.test(line));
+
+  const parent = path.relative(path.dirname(forkPath), sessionPath);
+  frontMatter.push(`forkedFrom: ${JSON.stringify(parent)}`, `forkedAt: ${turnNumber}`);
+
+  let body = lines.slice(bodyStart, end).join('\n').trim();
+
+  if (header.role === 'AI') {
+    body += `\n\n# [${turnNumber + 1}] Human\n\n`;
+  } else {
+    body += '\n';
+  }
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n${body}`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Minimal YAML front matter support for session files
+ *
+ * Handles the subset sessions need: scalars, quoted strings,
+ * inline lists ([a, b]), block lists (- item) and block scalars (|).
+ */
+
+export interface FrontMatter {
+  data: Record<string, unknown>;
+  // Line index where the session body starts
+  bodyStart: number;
+}
+
+export function extractFrontMatter(lines: string[]): FrontMatter {
+  if (lines[0]?.trim() !== '---') {
+    return { data: {}, bodyStart: 0 };
+  }
+
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+  if (end === -1) {
+    return { data: {}, bodyStart: 0 };
+  }
+
+  return { data: parseYaml(lines.slice(1, end)), bodyStart: end + 1 };
+}
+
+function parseYaml(lines: string[]): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const match = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    i++;
+
+    if (!match) continue;
+
+    const key = match[1]!;
+    const rest = stripComment(match[2]!);
+
+    // Block scalar: indented lines that follow
+    if (rest === '|' || rest === '>') {
+      const block: string[] = [];
+      while (i < lines.length && (lines[i]!.startsWith(' ') || lines[i]!.trim() === '')) {
+        block.push(lines[i]!);
+        i++;
+      }
+      const text = dedent(block).join(rest === '|' ? '\n' : ' ');
+      data[key] = text.trim();
+      continue;
+    }
+
+    // Block list: "- item" lines that follow, or none for an empty list
+    if (rest === '') {
+      const items: unknown[] = [];
+      while (i < lines.length && /^\s*-\s/.test(lines[i]!)) {
+        items.push(parseScalar(stripComment(lines[i]!.replace(/^\s*-\s/, ''))));
+        i++;
+      }
+      data[key] = items;
+      continue;
+    }
+
+    data[key] = parseValue(rest);
+  }
+
+  return data;
+}
+
+function parseValue(value: string): unknown {
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    if (!inner) return [];
+    return inner.split(',').map((item) => parseScalar(item.trim()));
+  }
+
+  return parseScalar(value);
+}
+
+function parseScalar(value: string): unknown {
+  if (
+    (value.startsWith('"') && value.endsWith('"')) ||
+    (value.startsWith("'") && value.endsWith("'"))
+  ) {
+    return value.slice(1, -1);
+  }
+
+  if (value === 'true' || value === 'yes' || value === 'on') return true;
+  if (value === 'false' || value === 'no' || value === 'off') return false;
+  if (value === 'null' || value === '~' || value === '') return null;
+
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  return value;
+}
+
+function stripComment(value: string): string {
+  // Comments need a preceding space and can't start inside quotes
+  if (value.startsWith('"') || value.startsWith("'")) return value.trim();
+  const idx = value.indexOf(' #');
+  return (idx === -1 ? value : value.slice(0, idx)).trim();
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim()).map((line) => line.match(/^ */)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(indent));
+}
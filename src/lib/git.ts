@@ -0,0 +1,78 @@
+/**
+ * [[git:...]] references: the working tree diff, the staged diff, a
+ * revision range, a commit, or the log, run in the working directory.
+ *
+ *   git:diff [args]     git diff
+ *   git:staged [args]   git diff --staged
+ *   git:A..B            git diff A..B
+ *   git:show <rev>      git show <rev>
+ *   git:log [args]      git log
+ */
+
+const GIT_PREFIX = 'git:';
+
+// Options that write files or run external programs
+const UNSAFE_OPTION = /^--(output|ext-diff|exec|upload-pack)\b/;
+
+// Two revisions joined by .. or ..., either of which may be left out
+const RANGE = /^[\w~^@{}/][\w~^@{}/.-]*\.{2,3}[\w~^@{}/.-]*$|^\.{2,3}[\w~^@{}/][\w~^@{}/.-]*$/;
+
+export function isGitReference(ref: string): boolean {
+  return ref.startsWith(GIT_PREFIX);
+}
+
+export interface GitContent {
+  command: string;
+  content: string;
+  isPatch: boolean;
+}
+
+/**
+ * The git arguments for a reference, without the leading `git:`
+ */
+export function gitArgs(spec: string): string[] {
+  const [name = '', ...rest] = spec.trim().split(/\s+/);
+
+  const unsafe = [name, ...rest].find((arg) => UNSAFE_OPTION.test(arg));
+  if (unsafe) {
+    throw new Error(`Option not allowed: ${unsafe}`);
+  }
+  if (name.startsWith('-')) {
+    throw new Error(`Expected a command or range before options, got ${name}`);
+  }
+
+  if (name === 'diff') return ['diff', ...rest];
+  if (name === 'staged') return ['diff', '--staged', ...rest];
+  if (name === 'show' || name === 'log') return [name, ...rest];
+  if (RANGE.test(name)) return ['diff', name, ...rest];
+
+  throw new Error('Expected diff, staged, show, log or a range like HEAD~3..HEAD');
+}
+
+export async function expandGit(spec: string): Promise<GitContent> {
+  const args = gitArgs(spec);
+  const command = `git ${args.join(' ')}`;
+
+  // Plain output whatever the user's git config says
+  const [name, ...rest] = args;
+  const proc = Bun.spawn(['git', '-c', 'color.ui=never', name!, '--no-ext-diff', ...rest], {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+
+  if (exitCode !== 0) {
+    throw new Error(stderr.trim().split('\n')[0] || `${command} failed`);
+  }
+
+  return {
+    command,
+    content: stdout.trimEnd(),
+    isPatch: args[0] !== 'log' || args.includes('-p') || args.includes('--patch'),
+  };
+}
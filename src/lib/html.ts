@@ -0,0 +1,348 @@
+import type { Session, Turn } from '../types.ts';
+import { IMAGE_MARKER, loadImage } from './attachments.ts';
+import { findExcludedRegions } from './regions.ts';
+import { markedExchanges } from './session.ts';
+
+/**
+ * A self-contained HTML page for a session: no scripts, no external
+ * assets. Images are inlined, expanded content is collapsed and code is
+ * highlighted with a small keyword/string/comment tokenizer.
+ */
+
+const KEYWORDS = new Set(
+  `abstract as async await break case catch class const continue def default defer del delete do
+elif else enum except export extends false final finally fn for from func function go if impl
+implements import in instanceof interface is lambda let match mod module mut new nil none not null
+or package pass private protected pub public raise readonly return self static struct super switch
+this throw throws trait true try type typeof undefined use var void while with yield`
+    .split(/\s+/)
+    .concat(['None', 'True', 'False']),
+);
+
+const HASH_COMMENTS = new Set([
+  'py',
+  'python',
+  'sh',
+  'bash',
+  'zsh',
+  'shell',
+  'rb',
+  'ruby',
+  'yaml',
+  'yml',
+  'toml',
+  'r',
+  'perl',
+  'makefile',
+  'dockerfile',
+  'ini',
+  'conf',
+]);
+
+const PLAIN = new Set(['', 'text', 'txt', 'markdown', 'md', 'diff', 'csv']);
+
+const EXPANSION_LABEL = /^<!-- (dir|glob|url|file|document|git): (.+) -->$/;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function highlight(code: string, lang: string): string {
+  if (PLAIN.has(lang)) return escapeHtml(code);
+
+  const comment = HASH_COMMENTS.has(lang) ? '#.*$' : '\\/\\/.*$|\\/\\*[\\s\\S]*?\\*\\/';
+  const pattern = new RegExp(
+    `(${comment})|("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\`)|(\\b\\d[\\d_.]*\\b)|(\\b[A-Za-z_]\\w*\\b)`,
+    'gm',
+  );
+
+  let html = '';
+  let last = 0;
+
+  for (const match of code.matchAll(pattern)) {
+    const [text, isComment, isString, isNumber, word] = match;
+    html += escapeHtml(code.slice(last, match.index));
+
+    const kind = isComment
+      ? 'com'
+      : isString
+        ? 'str'
+        : isNumber
+          ? 'num'
+          : word && KEYWORDS.has(word)
+            ? 'kw'
+            : undefined;
+
+    html += kind ? `<span class="${kind}">${escapeHtml(text)}</span>` : escapeHtml(text);
+    last = match.index + text.length;
+  }
+
+  return html + escapeHtml(code.slice(last));
+}
+
+function renderInline(text: string): string {
+  return text
+    .split(/(`[^`\n]+`)/)
+    .map((part, i) => {
+      if (i % 2 === 1) return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+
+      return escapeHtml(part)
+        .replace(
+          /\[([^\]]+)\]\(((?:https?:\/\/|\.{0,2}\/|#)[^\s)]*)\)/g,
+          (_, label: string, href: string) => `<a href="${href}">${label}</a>`,
+        )
+        .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^\w*])\*([^*\n]+)\*(?!\w)/g, '$1<em>$2</em>');
+    })
+    .join('');
+}
+
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split('|')
+    .map((cell) => renderInline(cell.trim()));
+}
+
+const BLOCK_START = /^(`{3,}|#{1,6}\s|>|\s*([-*+]|\d+\.)\s|<!-- )/;
+
+/**
+ * The markdown subset answers use: fences, headings, lists, quotes,
+ * tables and paragraphs. Raw HTML is escaped, never passed through.
+ */
+function renderMarkdown(text: string): string {
+  const lines = text.split('\n');
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    const fence = line.match(/^(`{3,})\s*([\w+-]*)/);
+    if (fence) {
+      const close = new RegExp(`^\`{${fence[1]!.length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !close.test(lines[i]!)) code.push(lines[i++]!);
+      i++;
+
+      const lang = fence[2]!.toLowerCase();
+      html.push(`<pre><code>${highlight(code.join('\n'), lang)}</code></pre>`);
+      continue;
+    }
+
+    if (!line.trim() || /^<!-- .* -->$/.test(line)) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      // Turn headers are h2, so answer headings start at h3
+      const level = Math.min(6, heading[1]!.length + 2);
+      html.push(`<h${level}>${renderInline(heading[2]!)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,})\s*$/.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i]!.startsWith('>')) {
+        quoted.push(lines[i++]!.replace(/^>\s?/, ''));
+      }
+      html.push(`<blockquote>${renderMarkdown(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    const item = line.match(/^\s*([-*+]|\d+\.)\s+/);
+    if (item) {
+      const tag = /\d/.test(item[1]!) ? 'ol' : 'ul';
+      const items: string[] = [];
+      while (i < lines.length && lines[i]!.trim()) {
+        const next = lines[i]!.match(/^\s*([-*+]|\d+\.)\s+(.*)$/);
+        if (next) {
+          items.push(next[2]!);
+        } else if (items.length > 0) {
+          items[items.length - 1] += ` ${lines[i]!.trim()}`;
+        }
+        i++;
+      }
+      html.push(
+        `<${tag}>${items.map((text) => `<li>${renderInline(text)}</li>`).join('')}</${tag}>`,
+      );
+      continue;
+    }
+
+    if (line.includes('|') && /^\s*\|?\s*:?-{3,}/.test(lines[i + 1] ?? '')) {
+      const head = splitRow(line);
+      i += 2;
+      const rows: string[][] = [];
+      while (i < lines.length && lines[i]!.includes('|')) rows.push(splitRow(lines[i++]!));
+
+      html.push(
+        `<table><thead><tr>${head.map((cell) => `<th>${cell}</th>`).join('')}</tr></thead>` +
+          `<tbody>${rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody></table>`,
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i]!.trim() &&
+      (paragraph.length === 0 || !BLOCK_START.test(lines[i]!))
+    ) {
+      paragraph.push(lines[i++]!);
+    }
+    html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+  }
+
+  return html.join('\n');
+}
+
+/**
+ * A question with its expansions collapsed and images inlined
+ */
+async function renderQuestion(content: string): Promise<string> {
+  const lines = content.split('\n');
+  const regions = findExcludedRegions(lines);
+  const html: string[] = [];
+  let text: string[] = [];
+
+  const flush = () => {
+    if (text.length > 0) html.push(renderMarkdown(text.join('\n')));
+    text = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const region = regions.find((r) => r.start === i && r.type.startsWith('expanded-'));
+
+    if (region) {
+      flush();
+      const [, kind, target] = line.match(EXPANSION_LABEL) ?? [];
+      const body = lines.slice(i + 1, region.end).join('\n');
+      html.push(
+        `<details class="expansion"><summary>${escapeHtml(`${kind}: ${target}`)}</summary>\n${renderMarkdown(body)}\n</details>`,
+      );
+      i = region.end;
+      continue;
+    }
+
+    const image = line.match(IMAGE_MARKER);
+    if (image && !regions.some((r) => i >= r.start && i <= r.end)) {
+      flush();
+      html.push(await renderImage(image[1]!));
+      continue;
+    }
+
+    text.push(line);
+  }
+
+  flush();
+  return html.join('\n');
+}
+
+async function renderImage(path: string): Promise<string> {
+  try {
+    const { format, bytes } = await loadImage(path);
+    const data = Buffer.from(bytes).toString('base64');
+    return `<figure><img src="data:image/${format};base64,${data}" alt="${escapeHtml(path)}"><figcaption>${escapeHtml(path)}</figcaption></figure>`;
+  } catch {
+    return `<p class="missing">Image not found: ${escapeHtml(path)}</p>`;
+  }
+}
+
+async function renderTurn(
+  turn: Turn,
+  marks: { skipped: boolean; pinned: boolean },
+): Promise<string> {
+  const classes = [turn.role === 'Human' ? 'human' : 'ai', marks.skipped && 'skipped']
+    .filter(Boolean)
+    .join(' ');
+
+  const body =
+    turn.role === 'Human'
+      ? await renderQuestion(turn.content)
+      : [
+          turn.thinking &&
+            `<details class="thinking"><summary>Thinking</summary>\n${renderMarkdown(turn.thinking)}\n</details>`,
+          renderMarkdown(turn.content),
+        ]
+          .filter(Boolean)
+          .join('\n');
+
+  const notes = [marks.skipped && 'skipped', marks.pinned && 'pinned'].filter(Boolean).join(', ');
+
+  return [
+    `<section class="${classes}" id="turn-${turn.number}">`,
+    `<h2>[${turn.number}] ${turn.role}${notes ? ` <small>${notes}</small>` : ''}</h2>`,
+    body,
+    '</section>',
+  ].join('\n');
+}
+
+const STYLE = `
+:root { color-scheme: light dark; --bg: #fff; --fg: #1f2328; --muted: #59636e; --line: #d1d9e0; --code: #f6f8fa; --human: #f0f6ff; --kw: #cf222e; --str: #0a3069; --com: #6e7781; --num: #0550ae; }
+@media (prefers-color-scheme: dark) { :root { --bg: #0d1117; --fg: #e6edf3; --muted: #9198a1; --line: #3d444d; --code: #151b23; --human: #111d2e; --kw: #ff7b72; --str: #a5d6ff; --com: #8b949e; --num: #79c0ff; } }
+body { margin: 0; background: var(--bg); color: var(--fg); font: 16px/1.6 system-ui, sans-serif; }
+main { max-width: 50rem; margin: 0 auto; padding: 2rem 1rem; }
+h1 { font-size: 1.4rem; }
+section { border-top: 1px solid var(--line); padding: 0.5rem 1rem 1rem; }
+section.human { background: var(--human); }
+section.skipped { opacity: 0.5; }
+h2 { font-size: 0.9rem; color: var(--muted); margin: 0.5rem 0; }
+h2 small { font-weight: normal; }
+pre { background: var(--code); padding: 0.75rem; overflow-x: auto; border-radius: 6px; }
+code { font: 0.875em/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; }
+p code, li code, td code { background: var(--code); padding: 0.1em 0.3em; border-radius: 4px; }
+details { border: 1px solid var(--line); border-radius: 6px; padding: 0.25rem 0.75rem; margin: 0.5rem 0; }
+summary { cursor: pointer; color: var(--muted); font-family: ui-monospace, monospace; font-size: 0.85rem; }
+table { border-collapse: collapse; } th, td { border: 1px solid var(--line); padding: 0.25rem 0.5rem; }
+blockquote { border-left: 3px solid var(--line); margin-left: 0; padding-left: 1rem; color: var(--muted); }
+img { max-width: 100%; } figcaption, .missing { color: var(--muted); font-size: 0.85rem; }
+.kw { color: var(--kw); } .str { color: var(--str); } .com { color: var(--com); font-style: italic; } .num { color: var(--num); }
+`;
+
+export async function renderSessionHtml(session: Session, title: string): Promise<string> {
+  const turns: string[] = [];
+  const skipped = markedExchanges(session.turns, 'skip');
+  const pinned = markedExchanges(session.turns, 'pin');
+
+  for (const [i, turn] of session.turns.entries()) {
+    turns.push(await renderTurn(turn, { skipped: skipped.has(i), pinned: pinned.has(i) }));
+  }
+
+  const system = session.system
+    ? `<details class="system"><summary>System prompt</summary>\n${renderMarkdown(session.system)}\n</details>`
+    : '';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+${system}
+${turns.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
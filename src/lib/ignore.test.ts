@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import { matchIgnore, parseIgnore } from './ignore.ts';
+
+describe('matchIgnore', () => {
+  const rules = [
+    ...parseIgnore('# build output\n*.log\n/dist/\ngenerated/\n!keep.log\n', '', '.gitignore'),
+    ...parseIgnore('fixtures/*.json\n\\#notes\n', 'src', 'src/.askignore'),
+  ];
+
+  const ignored = (path: string, isDirectory = false) => {
+    const rule = matchIgnore(rules, path, isDirectory);
+    return rule && !rule.negate ? rule.source : undefined;
+  };
+
+  test('matches names at any depth and anchored paths from the root', () => {
+    expect(ignored('debug.log')).toBe('.gitignore:2');
+    expect(ignored('src/lib/debug.log')).toBe('.gitignore:2');
+    expect(ignored('dist', true)).toBe('.gitignore:3');
+    expect(ignored('src/dist', true)).toBeUndefined();
+  });
+
+  test('applies directory-only rules to directories', () => {
+    expect(ignored('src/generated', true)).toBe('.gitignore:4');
+    expect(ignored('src/generated')).toBeUndefined();
+  });
+
+  test('lets a later negation include a file again', () => {
+    expect(ignored('keep.log')).toBeUndefined();
+    expect(matchIgnore(rules, 'keep.log', false)?.negate).toBe(true);
+  });
+
+  test('anchors nested rules to their own directory', () => {
+    expect(ignored('src/fixtures/users.json')).toBe('src/.askignore:1');
+    expect(ignored('fixtures/users.json')).toBeUndefined();
+    expect(ignored('src/#notes')).toBe('src/.askignore:2');
+  });
+});
@@ -0,0 +1,198 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { output } from './output.ts';
+
+/**
+ * .gitignore rules for directory and glob expansion: .git/info/exclude,
+ * then .gitignore and .askignore in each directory from the repository
+ * root down, deeper files and later lines taking precedence. Outside a
+ * repository the working directory stands in for the root.
+ */
+
+const IGNORE_FILES = ['.gitignore', '.askignore'];
+
+export interface IgnoreRule {
+  glob: InstanceType<typeof Bun.Glob>;
+  negate: boolean;
+  dirOnly: boolean;
+  // With a slash the pattern is matched from its file's directory, else against names
+  anchored: boolean;
+  // Directory of the ignore file, relative to the root
+  base: string;
+  // Where the rule came from, as file:line
+  source: string;
+}
+
+export interface IgnoredPath {
+  // Relative to the working directory; a directory ends with /
+  path: string;
+  source: string;
+}
+
+/**
+ * Rules from one ignore file
+ */
+export function parseIgnore(content: string, base: string, file: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  content.split('\n').forEach((raw, i) => {
+    // Trailing spaces don't count unless escaped
+    let line = raw.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) return;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) return;
+
+    rules.push({
+      glob: new Bun.Glob(line),
+      negate,
+      dirOnly,
+      anchored,
+      base,
+      source: `${file}:${i + 1}`,
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * The last rule matching a path relative to the root; a negated rule
+ * means it's included again
+ */
+export function matchIgnore(
+  rules: IgnoreRule[],
+  relativePath: string,
+  isDirectory: boolean,
+): IgnoreRule | undefined {
+  let match: IgnoreRule | undefined;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+
+    const target = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    const subject = rule.anchored ? target : path.posix.basename(target);
+    if (rule.glob.match(subject)) match = rule;
+  }
+
+  return match;
+}
+
+async function findRoot(from: string): Promise<string | undefined> {
+  for (let dir = from; ; dir = path.dirname(dir)) {
+    // A worktree or submodule has a .git file rather than a directory
+    try {
+      await fs.stat(path.join(dir, '.git'));
+      return dir;
+    } catch {
+      // No .git here
+    }
+    if (path.dirname(dir) === dir) return undefined;
+  }
+}
+
+async function readRules(file: string, base: string): Promise<IgnoreRule[]> {
+  const handle = Bun.file(file);
+  if (!(await handle.exists())) return [];
+  return parseIgnore(await handle.text(), base, path.relative(process.cwd(), file) || file);
+}
+
+/**
+ * A checker for paths under one expansion or walk. Returns the file or
+ * directory that makes a path ignored, reading ignore files as it meets
+ * new directories.
+ */
+export function createIgnoreChecker(): (
+  filePath: string,
+  isDirectory?: boolean,
+) => Promise<IgnoredPath | undefined> {
+  const roots = new Map<string, Promise<string | undefined>>();
+  const rulesByDir = new Map<string, Promise<IgnoreRule[]>>();
+
+  const rootFor = (dir: string) => {
+    if (!roots.has(dir)) roots.set(dir, findRoot(dir));
+    return roots.get(dir)!;
+  };
+
+  // Every rule that applies inside a directory, relative to the root
+  const rulesFor = (root: string, dir: string): Promise<IgnoreRule[]> => {
+    const key = path.join(root, dir);
+    if (!rulesByDir.has(key)) {
+      rulesByDir.set(
+        key,
+        (async () => {
+          const inherited = dir
+            ? await rulesFor(root, path.posix.dirname(dir) === '.' ? '' : path.posix.dirname(dir))
+            : await readRules(path.join(root, '.git', 'info', 'exclude'), '');
+
+          const own = await Promise.all(
+            IGNORE_FILES.map((name) => readRules(path.join(root, dir, name), dir)),
+          );
+          return [...inherited, ...own.flat()];
+        })(),
+      );
+    }
+    return rulesByDir.get(key)!;
+  };
+
+  return async (filePath: string, isDirectory = false) => {
+    const absolute = path.resolve(filePath);
+    const cwd = process.cwd();
+
+    let root = await rootFor(path.dirname(absolute));
+    if (!root && absolute.startsWith(`${cwd}${path.sep}`)) root = cwd;
+    if (!root) return undefined;
+
+    const segments = path.relative(root, absolute).split(path.sep);
+
+    // An ignored directory hides everything in it, whatever later rules say
+    for (let i = 1; i <= segments.length; i++) {
+      const relativePath = segments.slice(0, i).join('/');
+      const dir = segments.slice(0, i - 1).join('/');
+      const rule = matchIgnore(
+        await rulesFor(root, dir),
+        relativePath,
+        i < segments.length || isDirectory,
+      );
+      if (rule && !rule.negate) {
+        const ignored = path.relative(cwd, path.join(root, ...segments.slice(0, i)));
+        const trailing = i < segments.length || isDirectory ? '/' : '';
+        return { path: `${ignored}${trailing}`, source: rule.source };
+      }
+    }
+
+    return undefined;
+  };
+}
+
+/**
+ * List the paths an expansion skipped, or hint at the command that lists them
+ */
+export function reportIgnored(ignored: IgnoredPath[], show: boolean, command: string): void {
+  // Several references may skip the same path
+  const unique = [...new Map(ignored.map((entry) => [entry.path, entry])).values()];
+
+  if (show) {
+    output.blank();
+    if (unique.length === 0) {
+      output.info('No files were skipped by ignore files');
+    }
+    for (const entry of unique) {
+      output.info(`${entry.path}  ${output.dim(entry.source)}`);
+    }
+  } else if (unique.length > 0) {
+    const count = unique.length;
+    output.hint(
+      `Skipped ${count} ignored path${count !== 1 ? 's' : ''}; run '${command} --show-ignored' to list them`,
+    );
+  }
+}
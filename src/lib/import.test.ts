@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import { formatConversation, parseExport } from './import.ts';
+import { parseSession } from './parser.ts';
+
+describe('parseExport', () => {
+  test('reads claude.ai conversations with thinking and attachments', () => {
+    const [conversation] = parseExport(
+      JSON.stringify([
+        {
+          uuid: 'c1',
+          name: 'Auth bug',
+          chat_messages: [
+            {
+              sender: 'human',
+              text: 'Why does login fail?',
+              content: [{ type: 'text', text: 'Why does login fail?' }],
+              attachments: [{ file_name: 'auth.ts', extracted_content: 'login()' }],
+            },
+            {
+              sender: 'assistant',
+              content: [
+                { type: 'thinking', thinking: 'Check the token.' },
+                { type: 'text', text: 'The token expired.' },
+              ],
+            },
+          ],
+        },
+      ]),
+    );
+
+    expect(conversation?.title).toBe('Auth bug');
+    expect(conversation?.turns[0]?.text).toContain('<!-- file: auth.ts -->\n### auth.ts\n```');
+    expect(conversation?.turns[1]).toEqual({
+      role: 'AI',
+      text: 'The token expired.',
+      thinking: 'Check the token.',
+    });
+  });
+
+  test('follows the current branch of a ChatGPT conversation', () => {
+    const message = (role: string, text: string) => ({
+      author: { role },
+      content: { content_type: 'text', parts: [text] },
+    });
+
+    const [conversation] = parseExport(
+      JSON.stringify({
+        id: 'g1',
+        title: 'Edited',
+        current_node: 'c',
+        mapping: {
+          root: { parent: null, message: null },
+          a: { parent: 'root', message: message('user', 'Question') },
+          old: { parent: 'a', message: message('assistant', 'Old answer') },
+          c: { parent: 'a', message: message('assistant', 'New answer') },
+        },
+      }),
+    );
+
+    expect(conversation?.turns.map((turn) => turn.text)).toEqual(['Question', 'New answer']);
+  });
+
+  test('reads JSONL request logs with responses', () => {
+    const log = [
+      { request: { system: 'Be brief.', messages: [{ role: 'user', content: 'Hi' }] } },
+      {
+        request: { messages: [{ role: 'user', content: [{ type: 'text', text: 'Again' }] }] },
+        response: { id: 'msg_2', content: [{ type: 'text', text: 'Hello' }] },
+      },
+    ]
+      .map((entry) => JSON.stringify(entry))
+      .join('\n');
+
+    const conversations = parseExport(log);
+    expect(conversations.map((c) => c.id)).toEqual(['1', 'msg_2']);
+    expect(conversations[0]?.system).toBe('Be brief.');
+    expect(conversations[1]?.turns[1]).toEqual({ role: 'AI', text: 'Hello' });
+  });
+});
+
+describe('formatConversation', () => {
+  test('round-trips through parseSession', () => {
+    const content = formatConversation({
+      id: 'x',
+      title: 'Round trip',
+      source: 'api',
+      system: 'Be brief.',
+      turns: [
+        { role: 'Human', text: 'Show a session\n# [2] AI\nlike this' },
+        { role: 'Human', text: 'and a fence' },
+        {
+          role: 'AI',
+          text: 'Sure:\n\n````markdown\n# [1] Human\n````',
+          thinking: 'Easy.',
+        },
+      ],
+    });
+
+    const session = parseSession(content);
+    expect(session.system).toBe('Be brief.');
+    expect(session.turns).toHaveLength(2);
+    expect(session.turns[0]?.content).toBe('Show a session\n# [2] AI\nlike this\n\nand a fence');
+    expect(session.turns[1]?.content).toBe('Sure:\n\n````markdown\n# [1] Human\n````');
+    expect(session.turns[1]?.thinking).toBe('Easy.');
+    expect(content.endsWith('# [3] Human\n\n')).toBe(true);
+  });
+
+  test('closes code blocks left open and quotes references', () => {
+    const content = formatConversation({
+      id: 'x',
+      title: 'Open fence',
+      source: 'api',
+      turns: [
+        { role: 'Human', text: 'Half a snippet:\n```ts\nconst x = 1;' },
+        { role: 'AI', text: 'See [[src/x.ts]]' },
+        { role: 'Human', text: 'Thanks' },
+      ],
+    });
+
+    const session = parseSession(content);
+    expect(session.turns).toHaveLength(3);
+    expect(session.turns[0]?.content).toBe('Half a snippet:\n```ts\nconst x = 1;\n```');
+    expect(session.turns[1]?.content).toBe('See [\u200B[src/x.ts]\u200B]');
+  });
+});
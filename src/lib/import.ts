@@ -0,0 +1,336 @@
+import { AskError } from './errors.ts';
+import { fenceFor } from './expand.ts';
+import { languageFor } from './languages.ts';
+import { findExcludedRegions, isInExcludedRegion } from './regions.ts';
+
+/**
+ * Conversations from other tools, converted to the session format
+ * SessionWriter produces. Reads claude.ai and ChatGPT data exports
+ * (conversations.json) and Messages or Chat Completions request bodies,
+ * one per file, as an array, or as JSONL logs.
+ */
+
+export type ImportSource = 'claude.ai' | 'chatgpt' | 'api';
+
+interface ImportedTurn {
+  role: 'Human' | 'AI';
+  text: string;
+  thinking?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  source: ImportSource;
+  system?: string;
+  turns: ImportedTurn[];
+}
+
+// JSON from files we don't control
+type Json = Record<string, unknown>;
+
+function asObject(value: unknown): Json {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Json) : {};
+}
+
+function asList(value: unknown): Json[] {
+  return Array.isArray(value) ? value.map(asObject) : [];
+}
+
+const HEADER_LINE = /^# \[\d+\] (Human|AI)$/;
+
+function textOf(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * [[...]] in imported text is quoted, not a reference the next ask or
+ * refresh should expand
+ */
+function neutralizeReferences(text: string): string {
+  return text.replace(/\[\[/g, '[\u200B[').replace(/\]\]/g, ']\u200B]');
+}
+
+/**
+ * Attachments become expanded file blocks, as if referenced with [[file]]
+ */
+function attachmentBlock(name: string, content: string): string {
+  const escaped = neutralizeReferences(content);
+  const fence = fenceFor(escaped);
+
+  return [
+    `<!-- file: ${name} -->`,
+    `### ${name}`,
+    `${fence}${languageFor(name)}`,
+    escaped,
+    fence,
+    '<!-- /file -->',
+  ].join('\n');
+}
+
+function fromClaude(conversation: Json): Conversation {
+  const turns: ImportedTurn[] = [];
+
+  for (const message of asList(conversation['chat_messages'])) {
+    const blocks = asList(message['content']);
+
+    const text =
+      blocks
+        .filter((block) => block['type'] === 'text')
+        .map((block) => textOf(block['text']))
+        .join('\n\n') || textOf(message['text']);
+
+    const thinking = blocks
+      .filter((block) => block['type'] === 'thinking')
+      .map((block) => textOf(block['thinking']))
+      .join('\n\n');
+
+    const attachments = asList(message['attachments'])
+      .filter((attachment) => attachment['extracted_content'])
+      .map((attachment) =>
+        attachmentBlock(
+          textOf(attachment['file_name']) || 'attachment',
+          textOf(attachment['extracted_content']),
+        ),
+      );
+
+    turns.push({
+      role: message['sender'] === 'human' ? 'Human' : 'AI',
+      text: [text, ...attachments].filter(Boolean).join('\n\n'),
+      ...(thinking && { thinking }),
+    });
+  }
+
+  return {
+    id: textOf(conversation['uuid']),
+    title: textOf(conversation['name']) || 'Untitled',
+    source: 'claude.ai',
+    turns,
+  };
+}
+
+/**
+ * ChatGPT stores a tree of edits and regenerations; the conversation as
+ * last shown is the path from the current node back to the root
+ */
+function fromChatGPT(conversation: Json): Conversation {
+  const mapping = asObject(conversation['mapping']);
+  const path: Json[] = [];
+
+  // Guard against cycles in a malformed export
+  const seen = new Set<string>();
+  let id = textOf(conversation['current_node']);
+  while (id && mapping[id] && !seen.has(id)) {
+    seen.add(id);
+    const node = asObject(mapping[id]);
+    path.unshift(node);
+    id = textOf(node['parent']);
+  }
+
+  const turns: ImportedTurn[] = [];
+  let system: string | undefined;
+
+  for (const node of path) {
+    const message = asObject(node['message']);
+    if (asObject(message['metadata'])['is_visually_hidden_from_conversation']) continue;
+
+    const role = asObject(message['author'])['role'];
+    const content = asObject(message['content']);
+    const parts = Array.isArray(content['parts']) ? content['parts'] : [];
+    const text = parts.filter((part) => typeof part === 'string').join('\n\n');
+
+    if (role === 'system') {
+      system = text || undefined;
+    } else if (role === 'user') {
+      turns.push({ role: 'Human', text });
+    } else if (role === 'assistant' && (message['recipient'] ?? 'all') === 'all') {
+      // Tool calls and browsing output aren't part of the visible answer
+      if (content['content_type'] === 'text' || content['content_type'] === 'multimodal_text') {
+        turns.push({ role: 'AI', text });
+      }
+    }
+  }
+
+  return {
+    id: textOf(conversation['conversation_id'] ?? conversation['id']),
+    title: textOf(conversation['title']) || 'Untitled',
+    source: 'chatgpt',
+    ...(system && { system }),
+    turns,
+  };
+}
+
+function apiText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+
+  return asList(content)
+    .map((block) => {
+      if (block['type'] === 'text') return textOf(block['text']);
+      if (block['type'] === 'image' || block['type'] === 'image_url') {
+        return '*(image not imported)*';
+      }
+      if (block['type'] === 'document') {
+        return `*(document not imported: ${textOf(block['title']) || 'untitled'})*`;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * A request body, optionally logged together with its response
+ */
+function fromApi(entry: Json, index: number): Conversation {
+  const request = 'request' in entry ? asObject(entry['request']) : entry;
+  const turns: ImportedTurn[] = [];
+
+  let system = Array.isArray(request['system'])
+    ? apiText(request['system'])
+    : textOf(request['system']);
+
+  for (const message of asList(request['messages'])) {
+    const text = apiText(message['content']);
+
+    if (message['role'] === 'system' || message['role'] === 'developer') {
+      system = [system, text].filter(Boolean).join('\n\n');
+    } else {
+      turns.push({ role: message['role'] === 'user' ? 'Human' : 'AI', text });
+    }
+  }
+
+  // Messages API responses carry content; Chat Completions responses carry choices
+  const response = 'response' in entry ? asObject(entry['response']) : undefined;
+  if (response) {
+    const choice = asList(response['choices'])[0] ?? {};
+    const text = response['content']
+      ? apiText(response['content'])
+      : textOf(asObject(choice['message'])['content']);
+    turns.push({ role: 'AI', text });
+  }
+
+  const firstQuestion = turns.find((turn) => turn.role === 'Human')?.text ?? '';
+
+  return {
+    id: textOf(entry['id']) || textOf(response?.['id']) || String(index + 1),
+    title: firstQuestion.split('\n')[0]!.slice(0, 60) || 'Untitled',
+    source: 'api',
+    ...(system && { system }),
+    turns,
+  };
+}
+
+function toConversation(entry: Json, index: number): Conversation {
+  if ('chat_messages' in entry) return fromClaude(entry);
+  if ('mapping' in entry) return fromChatGPT(entry);
+  if ('messages' in entry || 'request' in entry) return fromApi(entry, index);
+
+  throw new AskError(
+    'Unrecognized conversation format',
+    'Supported: claude.ai and ChatGPT exports (conversations.json), Messages API and Chat Completions logs',
+  );
+}
+
+/**
+ * Read every conversation in an export file
+ */
+export function parseExport(content: string): Conversation[] {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(content);
+  } catch {
+    // JSONL: one request per line
+    try {
+      data = content
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line));
+    } catch {
+      throw new AskError('Not a JSON or JSONL file');
+    }
+  }
+
+  const entries = Array.isArray(data) ? asList(data) : [asObject(data)];
+  return entries.map(toConversation).filter((conversation) => conversation.turns.length > 0);
+}
+
+/**
+ * Empty turns dropped, consecutive turns with the same role merged
+ */
+function normalizeTurns(turns: ImportedTurn[]): ImportedTurn[] {
+  const result: ImportedTurn[] = [];
+
+  for (const turn of turns) {
+    const text = turn.text.trim();
+    if (!text && !turn.thinking) continue;
+
+    const previous = result[result.length - 1];
+    if (previous?.role === turn.role) {
+      previous.text = [previous.text, text].filter(Boolean).join('\n\n');
+      if (turn.thinking) {
+        previous.thinking = [previous.thinking, turn.thinking].filter(Boolean).join('\n\n');
+      }
+    } else {
+      result.push({ ...turn, text });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A header-like line outside code blocks would start a new turn, and a
+ * code block left open would swallow the turns after it
+ */
+function escapeHeaders(text: string): string {
+  const lines = text.split('\n');
+  const regions = findExcludedRegions(lines);
+
+  const escaped = lines.map((line, i) =>
+    HEADER_LINE.test(line) && !isInExcludedRegion(i, regions) ? `\\${line}` : line,
+  );
+
+  const unclosed = regions.find((r) => r.type === 'code-fence' && r.end >= lines.length);
+  if (unclosed) {
+    escaped.push(lines[unclosed.start]!.match(/^`{3,}/)![0]);
+  }
+
+  return escaped.join('\n');
+}
+
+/**
+ * Write a conversation as a session. AI answers get the ````markdown
+ * fence (longer if the answer contains one), and the session ends with
+ * an empty human turn so it can be continued with `ask`.
+ */
+export function formatConversation(conversation: Conversation): string {
+  const turns = normalizeTurns(conversation.turns);
+  const parts: string[] = [];
+
+  if (conversation.system) {
+    parts.push(`# System\n\n${neutralizeReferences(conversation.system.trim())}`);
+  }
+
+  turns.forEach((turn, i) => {
+    if (turn.role === 'Human') {
+      parts.push(`# [${i + 1}] Human\n\n${escapeHeaders(neutralizeReferences(turn.text))}`);
+      return;
+    }
+
+    const text = neutralizeReferences(turn.text);
+    const fence = fenceFor(text, 4);
+    const thinking = turn.thinking
+      ? `<details>\n<summary>Thinking</summary>\n\n${neutralizeReferences(turn.thinking.trim())}\n\n</details>\n\n`
+      : '';
+
+    parts.push(`# [${i + 1}] AI\n\n${thinking}${fence}markdown\n${text}\n${fence}`);
+  });
+
+  if (turns[turns.length - 1]?.role !== 'Human') {
+    parts.push(`# [${turns.length + 1}] Human\n`);
+  }
+
+  return `${parts.join('\n\n')}\n`;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { checkSession, fixSession } from './lint.ts';
+
+describe('checkSession', () => {
+  test('accepts a well-formed session with a trailing empty question', () => {
+    const content = `# [1] Human
+
+Hello
+
+# [2] AI
+
+\`\`\`\`markdown
+Hi there
+\`\`\`\`
+
+# [3] Human
+
+`;
+
+    expect(checkSession(content)).toEqual([]);
+  });
+
+  test('reports numbering, roles, empty turns and unclosed blocks', () => {
+    const content = `# [1] Human
+
+Look at [[src/]]
+<!-- dir: src/ -->
+file list
+
+# [2] AI
+
+\`\`\`\`markdown
+Answer
+\`\`\`\`
+
+# [2] Human
+
+# [4] Human
+
+More`;
+
+    expect(checkSession(content)).toEqual([
+      { line: 4, message: '<!-- dir: src/ --> is never closed' },
+    ]);
+
+    const closed = content.replace('file list', 'file list\n<!-- /dir -->');
+    expect(checkSession(closed)).toEqual([
+      { line: 14, message: 'Turn 2 appears more than once' },
+      { line: 14, message: 'Turn 2 is empty' },
+      { line: 16, message: 'Turn 4 should be turn 3' },
+      { line: 16, message: 'Turn 4 follows another Human turn' },
+    ]);
+  });
+});
+
+describe('fixSession', () => {
+  test('closes dangling blocks, merges same-role turns and renumbers', () => {
+    const content = `# [1] Human
+
+Look at this
+<!-- file: a.ts -->
+\`\`\`ts
+code
+\`\`\`
+
+# [3] AI
+
+\`\`\`\`markdown
+First part
+
+# [3] AI
+
+\`\`\`\`markdown
+Second part
+\`\`\`\`
+
+# [3] Human
+
+# [4] Human
+
+Next question
+`;
+
+    expect(fixSession(content)).toBe(`# [1] Human
+
+Look at this
+<!-- file: a.ts -->
+\`\`\`ts
+code
+\`\`\`
+<!-- /file -->
+
+# [2] AI
+
+\`\`\`\`markdown
+First part
+
+Second part
+\`\`\`\`
+
+# [3] Human
+
+Next question
+`);
+  });
+});
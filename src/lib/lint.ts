@@ -0,0 +1,225 @@
+import { extractFrontMatter } from './frontmatter.ts';
+import { findTurnHeaders } from './parser.ts';
+import { findExcludedRegions, type Region } from './regions.ts';
+
+/**
+ * Structural checks for hand-edited sessions. The parser tolerates all of
+ * these, so without a check they surface later as odd API errors.
+ */
+
+export interface Problem {
+  // 1-based, as editors show it
+  line: number;
+  message: string;
+}
+
+// Header-like lines, even inside a block that was never closed
+const HEADER_LINE = /^# \[\d+\] (Human|AI)$/;
+
+const ANSWER_FENCE = /^(`{4,})markdown\n([\s\S]*)\n\1$/;
+
+const ANSWER_OPENING = /^`{4,}markdown$/;
+
+function closingLine(region: Region, opening: string): string {
+  switch (region.type) {
+    case 'code-fence':
+      return opening.match(/^(`{3,})/)![1]!;
+    case 'details':
+      return '</details>';
+    case 'expanded-dir':
+      return '<!-- /dir -->';
+    case 'expanded-url':
+      return '<!-- /url -->';
+    case 'expanded-file':
+      return '<!-- /file -->';
+    case 'expanded-document':
+      return '<!-- /document -->';
+    case 'expanded-git':
+      return '<!-- /git -->';
+    case 'expanded-glob':
+      return '<!-- /glob -->';
+  }
+}
+
+function describeUnclosed(region: Region, opening: string): string {
+  if (region.type === 'code-fence') {
+    return ANSWER_OPENING.test(opening)
+      ? 'AI answer fence is never closed'
+      : 'Code fence is never closed';
+  }
+  if (region.type === 'details') {
+    return '<details> block is never closed';
+  }
+  return `${opening} is never closed`;
+}
+
+/**
+ * Where a block that runs on too long should have ended, or undefined if
+ * it's fine. A block never closed runs to the end of the file; an answer
+ * fence left open runs into the next answer and closes there instead.
+ */
+function danglingEnd(region: Region, lines: string[]): number | undefined {
+  const nextHeader = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (HEADER_LINE.test(lines[i]!)) return i;
+    }
+    return undefined;
+  };
+
+  if (region.end >= lines.length) {
+    return nextHeader(region.start + 1, lines.length) ?? lines.length;
+  }
+
+  // A collapsed block never closed already stops before the next turn
+  if (region.type === 'details' && lines[region.end] !== '</details>') {
+    return region.end + 1;
+  }
+
+  const opening = lines[region.start]!;
+  if (region.type !== 'code-fence' || !ANSWER_OPENING.test(opening)) {
+    return undefined;
+  }
+
+  for (let i = region.start + 1; i < region.end; i++) {
+    if (lines[i] === opening) {
+      return nextHeader(region.start + 1, i) ?? i;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * A turn body with nothing but whitespace and an empty answer fence
+ */
+function isEmptyBody(body: string[]): boolean {
+  return body.every((line) => !line.trim() || /^`{4,}(markdown)?\s*$/.test(line));
+}
+
+export function checkSession(content: string): Problem[] {
+  const lines = content.split('\n');
+  const regions = findExcludedRegions(lines);
+  const { bodyStart } = extractFrontMatter(lines);
+  const problems: Problem[] = [];
+
+  for (const region of regions) {
+    if (region.start >= bodyStart && danglingEnd(region, lines) !== undefined) {
+      const opening = lines[region.start]!;
+      problems.push({ line: region.start + 1, message: describeUnclosed(region, opening) });
+    }
+  }
+
+  const headers = findTurnHeaders(lines, regions, bodyStart);
+  const seen = new Set<number>();
+
+  headers.forEach((header, i) => {
+    const line = header.lineIndex + 1;
+    const previous = headers[i - 1];
+    const expected = previous ? previous.number + 1 : 1;
+
+    if (seen.has(header.number)) {
+      problems.push({ line, message: `Turn ${header.number} appears more than once` });
+    } else if (header.number !== expected) {
+      problems.push({ line, message: `Turn ${header.number} should be turn ${expected}` });
+    }
+    seen.add(header.number);
+
+    if (!previous && header.role === 'AI') {
+      problems.push({ line, message: 'The session starts with an AI turn' });
+    } else if (previous?.role === header.role) {
+      problems.push({ line, message: `Turn ${header.number} follows another ${header.role} turn` });
+    }
+
+    // The trailing empty question is where the next one goes
+    const end = headers[i + 1]?.lineIndex ?? lines.length;
+    const isLast = i === headers.length - 1;
+    if (
+      isEmptyBody(lines.slice(header.lineIndex + 1, end)) &&
+      !(isLast && header.role === 'Human')
+    ) {
+      problems.push({ line, message: `Turn ${header.number} is empty` });
+    }
+  });
+
+  return problems.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Close dangling blocks, drop empty turns, merge consecutive turns with
+ * the same role and renumber. A session starting with an AI turn is left
+ * for the user to sort out.
+ */
+export function fixSession(content: string): string {
+  const lines = content.split('\n');
+  const { bodyStart } = extractFrontMatter(lines);
+
+  // One block at a time: closing one can reveal headers it swallowed
+  for (;;) {
+    const region = findExcludedRegions(lines).find(
+      (r) => r.start >= bodyStart && danglingEnd(r, lines) !== undefined,
+    );
+    if (!region) break;
+
+    let end = danglingEnd(region, lines)!;
+    while (end - 1 > region.start && !lines[end - 1]!.trim()) end--;
+
+    lines.splice(end, 0, closingLine(region, lines[region.start]!));
+  }
+
+  const headers = findTurnHeaders(lines);
+  if (headers.length === 0) {
+    return lines.join('\n');
+  }
+
+  const preamble = lines.slice(0, headers[0]!.lineIndex).join('\n').trimEnd();
+
+  let turns = headers.map((header, i) => {
+    const end = headers[i + 1]?.lineIndex ?? lines.length;
+    return {
+      role: header.role,
+      body: lines
+        .slice(header.lineIndex + 1, end)
+        .join('\n')
+        .trim(),
+    };
+  });
+
+  turns = turns.filter(
+    (turn, i) =>
+      !isEmptyBody(turn.body.split('\n')) || (i === turns.length - 1 && turn.role === 'Human'),
+  );
+
+  const merged: typeof turns = [];
+  for (const turn of turns) {
+    const previous = merged[merged.length - 1];
+    if (previous?.role === turn.role) {
+      previous.body = mergeBodies(previous.body, turn.body);
+    } else {
+      merged.push({ ...turn });
+    }
+  }
+
+  const body = merged
+    .map((turn, i) => `# [${i + 1}] ${turn.role}\n\n${turn.body}`.trimEnd())
+    .join('\n\n');
+
+  const last = merged[merged.length - 1];
+  const tail = last && !last.body ? '\n\n' : '\n';
+
+  return `${preamble ? `${preamble}\n\n` : ''}${body}${tail}`;
+}
+
+/**
+ * Two answers each in their own fence become one fenced answer
+ */
+function mergeBodies(first: string, second: string): string {
+  const a = first.match(ANSWER_FENCE);
+  const b = second.match(ANSWER_FENCE);
+
+  if (a && b) {
+    const fence = a[1]!.length >= b[1]!.length ? a[1]! : b[1]!;
+    return `${fence}markdown\n${a[2]!.trim()}\n\n${b[2]!.trim()}\n${fence}`;
+  }
+
+  return [first, second].filter(Boolean).join('\n\n');
+}
@@ -1,5 +1,38 @@
-import type { ModelType } from '../types.ts';
+import type { ModelInfo, ModelType } from '../types.ts';
+import type { Config } from './config.ts';
 
 export function isValidModel(value: unknown): value is ModelType {
   return typeof value === 'string' && (value === 'opus' || value === 'sonnet' || value === 'haiku');
 }
+
+// Anthropic API IDs for the aliases, for requests built without a provider
+export const API_MODEL_IDS: Record<ModelType, string> = {
+  opus: 'claude-opus-4-5',
+  sonnet: 'claude-sonnet-4-5',
+  haiku: 'claude-haiku-4-5',
+};
+
+// Most specific patterns first
+const MODELS: ModelInfo[] = [
+  { pattern: 'opus-4-5', contextWindow: 200000, maxTokens: 64000 },
+  { pattern: 'opus-4', contextWindow: 200000, maxTokens: 32000 },
+  { pattern: 'sonnet-4', contextWindow: 200000, maxTokens: 64000 },
+  { pattern: 'haiku-4', contextWindow: 200000, maxTokens: 64000 },
+  { pattern: '3-7-sonnet', contextWindow: 200000, maxTokens: 64000 },
+  { pattern: '3-5-sonnet', contextWindow: 200000, maxTokens: 8192 },
+  { pattern: '3-5-haiku', contextWindow: 200000, maxTokens: 8192 },
+  { pattern: 'claude', contextWindow: 200000, maxTokens: 4096 },
+];
+
+// Models we know nothing about, typically served by a local openai server
+const UNKNOWN_MODEL: ModelInfo = { pattern: '', contextWindow: 128000, maxTokens: 8192 };
+
+/**
+ * Limits for a model ID; a configured contextWindow takes precedence
+ */
+export function modelInfo(modelId: string, config?: Config): ModelInfo {
+  const id = modelId.toLowerCase();
+  const info = MODELS.find((model) => id.includes(model.pattern)) ?? UNKNOWN_MODEL;
+
+  return config?.contextWindow ? { ...info, contextWindow: config.contextWindow } : info;
+}
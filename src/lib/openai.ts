@@ -0,0 +1,213 @@
+import type {
+  CompletionRequest,
+  ContentBlock,
+  Provider,
+  StopReason,
+  StreamEvent,
+  TokenUsage,
+} from '../types.ts';
+import type { Config } from './config.ts';
+import { AskError } from './errors.ts';
+import { documentAsText } from './extract.ts';
+import { getJson, postStream, readEvents } from './sse.ts';
+
+const DEFAULT_ENDPOINT = 'http://localhost:8080/v1';
+
+interface OpenAIModelList {
+  data: Array<{ id: string }>;
+}
+
+function headers(): Record<string, string> {
+  // Local servers usually don't need a key
+  const key = process.env['OPENAI_API_KEY'];
+  return key ? { authorization: `Bearer ${key}` } : {};
+}
+
+/**
+ * Build a Chat Completions request body from a completion request
+ */
+export function toOpenAIRequest(request: CompletionRequest): Record<string, unknown> {
+  const messages: Array<{ role: string; content: unknown }> = request.messages.map((message) => ({
+    role: message.role,
+    content: toOpenAIContent(message.content),
+  }));
+
+  if (request.system) {
+    messages.unshift({ role: 'system', content: request.system });
+  }
+
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    messages,
+  };
+}
+
+/**
+ * Plain strings for text-only messages, which every server accepts;
+ * content parts only when images are present. Documents are sent as
+ * extracted text.
+ */
+function toOpenAIContent(blocks: ContentBlock[]): unknown {
+  const hasImages = blocks.some((block) => 'image' in block);
+
+  if (!hasImages) {
+    return blocks
+      .flatMap((block) => {
+        if ('text' in block) return [block.text];
+        if ('document' in block) return [documentAsText(block.document)];
+        return [];
+      })
+      .join('\n\n');
+  }
+
+  return blocks.flatMap((block): Array<Record<string, unknown>> => {
+    if ('text' in block) {
+      return [{ type: 'text', text: block.text }];
+    }
+    if ('document' in block) {
+      return [{ type: 'text', text: documentAsText(block.document) }];
+    }
+    if ('image' in block) {
+      const data = Buffer.from(block.image.source.bytes).toString('base64');
+      return [
+        {
+          type: 'image_url',
+          image_url: { url: `data:image/${block.image.format};base64,${data}` },
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+export function createOpenAIProvider(config: Config): Provider {
+  const endpoint = (config.endpoint ?? DEFAULT_ENDPOINT).replace(/\/$/, '');
+
+  function unreachable(error: unknown): AskError {
+    if (error instanceof AskError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    if (/unable to connect|ECONNREFUSED|fetch failed/i.test(message)) {
+      return new AskError(
+        `Cannot reach ${endpoint}`,
+        'Start your local server or set the endpoint: ask cfg endpoint <url>',
+      );
+    }
+    return AskError.from(error);
+  }
+
+  async function listModels(): Promise<string[]> {
+    try {
+      const list = await getJson<OpenAIModelList>(`${endpoint}/models`, headers());
+      return list.data.map((model) => model.id);
+    } catch (error) {
+      throw unreachable(error);
+    }
+  }
+
+  async function* stream(
+    request: CompletionRequest,
+    abortSignal?: AbortSignal,
+  ): AsyncGenerator<StreamEvent> {
+    try {
+      yield { type: 'start' };
+
+      const response = await postStream(
+        `${endpoint}/chat/completions`,
+        headers(),
+        { ...toOpenAIRequest(request), stream: true, stream_options: { include_usage: true } },
+        abortSignal,
+      );
+
+      let totalTokens = 0;
+      let stopReason: StopReason | undefined;
+      const usage: TokenUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+
+      for await (const { data } of readEvents(response)) {
+        // Check abort between events
+        if (abortSignal?.aborted) {
+          break;
+        }
+
+        if (data === '[DONE]') break;
+
+        const event = JSON.parse(data);
+
+        if (event.error) {
+          throw new Error(event.error.message ?? 'Stream error');
+        }
+
+        // Reasoning models on llama.cpp and vLLM stream their thoughts separately
+        const reasoning: string | undefined = event.choices?.[0]?.delta?.reasoning_content;
+        if (reasoning) {
+          totalTokens += Math.ceil(reasoning.length / 4);
+          yield { type: 'thinking', text: reasoning, tokens: totalTokens };
+        }
+
+        const text: string | undefined = event.choices?.[0]?.delta?.content;
+        if (text) {
+          totalTokens += Math.ceil(text.length / 4);
+          yield { type: 'chunk', text, tokens: totalTokens };
+        }
+
+        const finish: string | undefined = event.choices?.[0]?.finish_reason;
+        if (finish) {
+          stopReason =
+            finish === 'length' ? 'max_tokens' : finish === 'stop' ? 'end_turn' : 'other';
+        }
+
+        if (event.usage) {
+          const cached = event.usage.prompt_tokens_details?.cached_tokens ?? 0;
+          usage.input = (event.usage.prompt_tokens ?? 0) - cached;
+          usage.cacheRead = cached;
+          if (event.usage.completion_tokens) {
+            totalTokens = event.usage.completion_tokens;
+          }
+        }
+      }
+
+      yield { type: 'end', usage: { ...usage, output: totalTokens }, stopReason };
+    } catch (error) {
+      // Don't yield error if aborted
+      if (abortSignal?.aborted) {
+        return;
+      }
+      yield { type: 'error', error: unreachable(error) };
+    }
+  }
+
+  return {
+    name: 'openai',
+
+    async resolveModel(model) {
+      const models = await listModels();
+
+      if (models.length === 0) {
+        throw new AskError(
+          `No models served at ${endpoint}`,
+          'Check your server has a model loaded',
+        );
+      }
+
+      // Local servers often serve a single model under an arbitrary name
+      const match =
+        models.find((id) => id === model) ??
+        models.find((id) => id.toLowerCase().includes(model.toLowerCase())) ??
+        (models.length === 1 ? models[0] : undefined);
+
+      if (!match) {
+        throw new AskError(
+          `No model matching ${model} at ${endpoint}`,
+          `Available models:\n${models.map((id) => `  ${id}`).join('\n')}`,
+        );
+      }
+
+      return { id: match, modelId: match, location: new URL(endpoint).host };
+    },
+
+    listModels,
+
+    stream,
+  };
+}
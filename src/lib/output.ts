@@ -25,6 +25,7 @@ export const output = {
   value: (text: string) => chalk.white(text),
   hint: (text: string) => console.log(chalk.dim(text)),
   number: (n: number) => n.toLocaleString(),
+  cost: (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`,
   separator: () => chalk.dim('·'),
 
   // Fetch status indicators
@@ -179,4 +179,189 @@ Response`;
     const session = parseSession(content);
     expect(session.turns).toHaveLength(1);
   });
+
+  test('parses system section before first turn', () => {
+    const content = `# System
+
+You are a senior reviewer.
+
+# [1] Human
+
+Question`;
+
+    const session = parseSession(content);
+    expect(session.system).toBe('You are a senior reviewer.');
+    expect(session.turns).toHaveLength(1);
+    expect(session.turns[0]?.content).toBe('Question');
+  });
+
+  test('ignores system header after first turn', () => {
+    const content = `# [1] Human
+
+# System
+
+Not a system prompt`;
+
+    const session = parseSession(content);
+    expect(session.system).toBeUndefined();
+    expect(session.turns[0]?.content).toBe('# System\n\nNot a system prompt');
+  });
+
+  test('extracts front matter settings', () => {
+    const content = `---
+model: sonnet
+temperature: 0.3
+web: off
+exclude:
+  - "*.snap"
+  - fixtures/**
+system: |
+  You are terse.
+  Cite lines.
+---
+
+# [1] Human
+
+Question`;
+
+    const session = parseSession(content);
+    expect(session.frontMatter).toEqual({
+      model: 'sonnet',
+      temperature: 0.3,
+      web: false,
+      exclude: ['*.snap', 'fixtures/**'],
+      system: 'You are terse.\nCite lines.',
+    });
+    expect(session.turns).toHaveLength(1);
+    expect(session.turns[0]?.content).toBe('Question');
+
+    expect(parseSession('---\nexclude:\n---\n').frontMatter).toEqual({ exclude: [] });
+  });
+
+  test('treats unterminated front matter as body', () => {
+    const content = `---
+model: sonnet
+
+# [1] Human
+
+Question`;
+
+    const session = parseSession(content);
+    expect(session.frontMatter).toEqual({});
+    expect(session.turns).toHaveLength(1);
+  });
+
+  test('strips thinking block from AI responses', () => {
+    const content = `# [1] Human
+
+Question
+
+# [2] AI
+
+<details>
+<summary>Thinking</summary>
+
+Consider the options.
+
+# [3] Human inside reasoning
+
+</details>
+
+\`\`\`\`markdown
+Answer
+\`\`\`\``;
+
+    const session = parseSession(content);
+    expect(session.turns).toHaveLength(2);
+    expect(session.turns[1]?.content).toBe('Answer');
+    expect(session.turns[1]?.thinking).toBe(
+      'Consider the options.\n\n# [3] Human inside reasoning',
+    );
+  });
+
+  test('sends only the canonical answer when alternates are kept', () => {
+    const content = `# [1] Human
+
+Question
+
+# [2] AI
+
+<details>
+<summary>Alternate 1</summary>
+
+<details>
+<summary>Thinking</summary>
+
+Old reasoning
+
+</details>
+
+\`\`\`\`markdown
+Old answer
+\`\`\`\`
+
+</details>
+
+<details>
+<summary>Thinking</summary>
+
+New reasoning
+
+</details>
+
+\`\`\`\`markdown
+New answer
+\`\`\`\``;
+
+    const session = parseSession(content);
+    expect(session.turns).toHaveLength(2);
+    expect(session.turns[1]?.content).toBe('New answer');
+    expect(session.turns[1]?.thinking).toBe('New reasoning');
+  });
+
+  test('leaves other details blocks and unclosed thinking to the turn they are in', () => {
+    const content = `# [1] Human
+
+<details>
+<summary>Logs</summary>
+
+# [2] AI
+
+<details>
+<summary>Thinking</summary>
+
+Cut off
+
+# [3] Human
+
+Again`;
+
+    const session = parseSession(content);
+    expect(session.turns[0]?.content).toBe('<details>\n<summary>Logs</summary>');
+    expect(session.turns.at(-1)).toMatchObject({ number: 3, content: 'Again' });
+  });
+
+  test('reads skip and pin markers outside code fences', () => {
+    const content = `# [1] Human
+
+<!-- ask:skip -->
+Dead end
+
+# [2] AI
+
+<!-- ask:pin -->
+\`\`\`\`markdown
+Answer
+
+\`\`\`html
+<!-- ask:skip -->
+\`\`\`
+\`\`\`\``;
+
+    const session = parseSession(content);
+    expect(session.turns[0]).toMatchObject({ content: 'Dead end', skip: true });
+    expect(session.turns[1]?.pin).toBe(true);
+    expect(session.turns[1]?.skip).toBeUndefined();
+    expect(session.turns[1]?.content).toBe('Answer\n\n```html\n<!-- ask:skip -->\n```');
+  });
 });
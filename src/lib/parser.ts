@@ -1,32 +1,27 @@
 import type { Session, Turn } from '../types.ts';
-import { findExcludedRegions, isInExcludedRegion } from './regions.ts';
+import { extractFrontMatter } from './frontmatter.ts';
+import { findExcludedRegions, isInExcludedRegion, type Region } from './regions.ts';
+
+const TURN_MARKER = /^<!-- ask:(skip|pin) -->$/;
+
+const ESCAPED_HEADER = /^\\(# \[\d+\] (?:Human|AI))$/;
 
 export function parseSession(content: string): Session {
   const lines = content.split('\n');
   const regions = findExcludedRegions(lines);
+  const { data: frontMatter, bodyStart } = extractFrontMatter(lines);
 
-  // Find turn headers outside excluded regions
-  const turnHeaders: Array<{
-    lineIndex: number;
-    number: number;
-    role: 'Human' | 'AI';
-  }> = [];
+  const turnHeaders = findTurnHeaders(lines, regions, bodyStart);
 
-  for (let i = 0; i < lines.length; i++) {
-    if (isInExcludedRegion(i, regions)) continue;
-
-    const match = lines[i]!.match(/^# \[(\d+)\] (Human|AI)$/);
-    if (match) {
-      turnHeaders.push({
-        lineIndex: i,
-        number: parseInt(match[1]!, 10),
-        role: match[2] as 'Human' | 'AI',
-      });
-    }
-  }
+  const system = parseSystemSection(
+    lines,
+    regions,
+    bodyStart,
+    turnHeaders[0]?.lineIndex ?? lines.length,
+  );
 
   if (turnHeaders.length === 0) {
-    return { turns: [], lastHumanTurnIndex: -1 };
+    return { turns: [], lastHumanTurnIndex: -1, frontMatter, ...(system && { system }) };
   }
 
   // Extract content between headers
@@ -39,11 +34,33 @@ export function parseSession(content: string): Session {
     const startLine = header.lineIndex + 1;
     const endLine = nextHeader ? nextHeader.lineIndex : lines.length;
 
-    let turnContent = lines.slice(startLine, endLine).join('\n').trim();
-
-    // Strip markdown wrapper from AI responses
+    // Markers may sit anywhere in the turn outside code fences
+    const markers = new Set<string>();
+    const body: string[] = [];
+    lines.slice(startLine, endLine).forEach((line, offset) => {
+      if (isInExcludedRegion(startLine + offset, regions)) {
+        body.push(line);
+        return;
+      }
+
+      const marker = line.match(TURN_MARKER);
+      if (marker) {
+        markers.add(marker[1]!);
+        return;
+      }
+
+      // A header escaped so it doesn't start a turn is sent as written
+      body.push(line.replace(ESCAPED_HEADER, '$1'));
+    });
+
+    let turnContent = body.join('\n').trim();
+    let thinking: string | undefined;
+
+    // Strip thinking and markdown wrapper from AI responses
     if (header.role === 'AI') {
-      turnContent = unwrapMarkdownFence(turnContent);
+      const { content, blocks } = stripDetailsBlocks(turnContent);
+      thinking = blocks.get('Thinking');
+      turnContent = unwrapMarkdownFence(content);
     }
 
     if (turnContent) {
@@ -51,6 +68,9 @@ export function parseSession(content: string): Session {
         number: header.number,
         role: header.role,
         content: turnContent,
+        ...(thinking && { thinking }),
+        ...(markers.has('skip') && { skip: true }),
+        ...(markers.has('pin') && { pin: true }),
       });
     }
   }
@@ -64,7 +84,90 @@ export function parseSession(content: string): Session {
     }
   }
 
-  return { turns, lastHumanTurnIndex };
+  return { turns, lastHumanTurnIndex, frontMatter, ...(system && { system }) };
+}
+
+export interface TurnHeader {
+  lineIndex: number;
+  number: number;
+  role: 'Human' | 'AI';
+}
+
+/**
+ * Find turn headers outside excluded regions
+ */
+export function findTurnHeaders(
+  lines: string[],
+  regions: Region[] = findExcludedRegions(lines),
+  bodyStart: number = extractFrontMatter(lines).bodyStart,
+): TurnHeader[] {
+  const turnHeaders: TurnHeader[] = [];
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    if (isInExcludedRegion(i, regions)) continue;
+
+    const match = lines[i]!.match(/^# \[(\d+)\] (Human|AI)$/);
+    if (match) {
+      turnHeaders.push({
+        lineIndex: i,
+        number: parseInt(match[1]!, 10),
+        role: match[2] as 'Human' | 'AI',
+      });
+    }
+  }
+
+  return turnHeaders;
+}
+
+/**
+ * Extract the optional `# System` section preceding the first turn
+ */
+function parseSystemSection(
+  lines: string[],
+  regions: Region[],
+  bodyStart: number,
+  firstTurnLine: number,
+): string | undefined {
+  for (let i = bodyStart; i < firstTurnLine; i++) {
+    if (isInExcludedRegion(i, regions)) continue;
+
+    if (lines[i]!.match(/^# System$/)) {
+      const content = lines
+        .slice(i + 1, firstTurnLine)
+        .join('\n')
+        .trim();
+      return content || undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Remove top-level <details> blocks, keyed by their summary
+ */
+function stripDetailsBlocks(content: string): { content: string; blocks: Map<string, string> } {
+  const lines = content.split('\n');
+  const regions = findExcludedRegions(lines).filter((r) => r.type === 'details');
+  const blocks = new Map<string, string>();
+
+  if (regions.length === 0) {
+    return { content, blocks };
+  }
+
+  for (const region of regions) {
+    const summary = lines[region.start + 1]?.match(/^<summary>(.*)<\/summary>$/)?.[1];
+    if (summary) {
+      const body = lines
+        .slice(region.start + 2, region.end)
+        .join('\n')
+        .trim();
+      blocks.set(summary, body);
+    }
+  }
+
+  const kept = lines.filter((_, i) => !isInExcludedRegion(i, regions));
+  return { content: kept.join('\n').trim(), blocks };
 }
 
 function unwrapMarkdownFence(content: string): string {
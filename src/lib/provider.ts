@@ -0,0 +1,22 @@
+import type { Provider, ProviderName } from '../types.ts';
+import { createAnthropicProvider } from './anthropic.ts';
+import { createBedrockProvider } from './bedrock.ts';
+import type { Config } from './config.ts';
+import { createOpenAIProvider } from './openai.ts';
+
+export const PROVIDERS = ['bedrock', 'anthropic', 'openai'] as const;
+
+export function isValidProvider(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDERS as readonly string[]).includes(value);
+}
+
+export function createProvider(config: Config): Provider {
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'openai':
+      return createOpenAIProvider(config);
+    default:
+      return createBedrockProvider(config);
+  }
+}
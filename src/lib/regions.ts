@@ -1,9 +1,21 @@
 export interface Region {
-  type: 'code-fence' | 'expanded-dir' | 'expanded-url' | 'expanded-file';
+  type:
+    | 'code-fence'
+    | 'expanded-dir'
+    | 'expanded-url'
+    | 'expanded-file'
+    | 'expanded-document'
+    | 'expanded-git'
+    | 'expanded-glob'
+    | 'details';
   start: number;
   end: number;
 }
 
+const COLLAPSED_SUMMARY = /^<summary>(?:Thinking|Alternate \d+)<\/summary>$/;
+
+const TURN_HEADER = /^# \[\d+\] (?:Human|AI)$/;
+
 export function findExcludedRegions(lines: string[]): Region[] {
   const regions: Region[] = [];
 
@@ -30,6 +42,29 @@ export function findExcludedRegions(lines: string[]): Region[] {
       continue;
     }
 
+    // Collapsed thinking or alternate answer, may nest. Other <details>
+    // blocks are the user's own markdown.
+    if (line.match(/^<details>$/) && lines[i + 1]?.match(COLLAPSED_SUMMARY)) {
+      const start = i;
+      let depth = 1;
+      i++;
+      while (i < lines.length) {
+        if (lines[i]!.match(/^<details>$/)) depth++;
+        if (lines[i]!.match(/^<\/details>$/) && --depth === 0) break;
+        i++;
+      }
+
+      // Never closed: it ends before the next turn rather than hiding the rest
+      if (i === lines.length) {
+        const header = lines.findIndex((l, n) => n > start && TURN_HEADER.test(l));
+        if (header !== -1) i = header - 1;
+      }
+
+      regions.push({ type: 'details', start, end: i });
+      i++;
+      continue;
+    }
+
     // Expanded directory block
     if (line.match(/^<!-- dir: .+ -->$/)) {
       const start = i;
@@ -42,6 +77,18 @@ export function findExcludedRegions(lines: string[]): Region[] {
       continue;
     }
 
+    // Expanded glob block
+    if (line.match(/^<!-- glob: .+ -->$/)) {
+      const start = i;
+      i++;
+      while (i < lines.length && !lines[i]!.match(/^<!-- \/glob -->$/)) {
+        i++;
+      }
+      regions.push({ type: 'expanded-glob', start, end: i });
+      i++;
+      continue;
+    }
+
     // Expanded URL block
     if (line.match(/^<!-- url: .+ -->$/)) {
       const start = i;
@@ -66,6 +113,30 @@ export function findExcludedRegions(lines: string[]): Region[] {
       continue;
     }
 
+    // Document block
+    if (line.match(/^<!-- document: .+ -->$/)) {
+      const start = i;
+      i++;
+      while (i < lines.length && !lines[i]!.match(/^<!-- \/document -->$/)) {
+        i++;
+      }
+      regions.push({ type: 'expanded-document', start, end: i });
+      i++;
+      continue;
+    }
+
+    // Git output block
+    if (line.match(/^<!-- git: .+ -->$/)) {
+      const start = i;
+      i++;
+      while (i < lines.length && !lines[i]!.match(/^<!-- \/git -->$/)) {
+        i++;
+      }
+      regions.push({ type: 'expanded-git', start, end: i });
+      i++;
+      continue;
+    }
+
     i++;
   }
 
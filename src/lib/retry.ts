@@ -14,8 +14,12 @@ export function isRetryable(error: unknown): boolean {
     'throttling',
     'rate exceeded',
     '503 service unavailable',
+    'overloaded',
   ];
 
+  // HTTP providers report status codes first
+  if (/^(429|503|529) /.test(message)) return true;
+
   return retryablePatterns.some((pattern) => message.includes(pattern));
 }
 
@@ -30,7 +34,7 @@ export async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
 
       if (isRetryable(error)) {
         const delay = delays[attempt]!;
-        output.warning(`AWS busy, retrying in ${delay / 1000}s...`);
+        output.warning(`Service busy, retrying in ${delay / 1000}s...`);
         await sleep(delay);
       } else {
         throw error;
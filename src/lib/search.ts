@@ -0,0 +1,86 @@
+import type { Turn } from '../types.ts';
+import { parseSession } from './parser.ts';
+import { findExcludedRegions } from './regions.ts';
+
+/**
+ * Search over the conversation itself. Expanded file, directory, URL and
+ * document blocks are left out unless asked for, so a match in a pasted
+ * file doesn't bury the answer that discussed it.
+ */
+
+export interface SearchHit {
+  turn: number;
+  role: Turn['role'];
+  score: number;
+  snippet: string;
+}
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 100;
+
+// Occurrences past this add nothing; a term repeated in a long answer isn't a better match
+const MAX_COUNT = 5;
+
+export function searchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function proseOf(content: string, expanded: boolean): string {
+  const lines = content.split('\n');
+  if (expanded) return content;
+
+  const blocks = findExcludedRegions(lines).filter((r) => r.type.startsWith('expanded-'));
+  return lines.filter((_, i) => !blocks.some((r) => i >= r.start && i <= r.end)).join('\n');
+}
+
+function countOf(text: string, term: string): number {
+  let count = 0;
+  for (let i = text.indexOf(term); i !== -1 && count < MAX_COUNT; i = text.indexOf(term, i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+function snippetAt(text: string, index: number): string {
+  const start = Math.max(0, index - SNIPPET_BEFORE);
+  const end = Math.min(text.length, index + SNIPPET_AFTER);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Turns containing every term, scored by how often the terms occur and
+ * whether they appear together as typed
+ */
+export function searchSession(
+  content: string,
+  query: string,
+  options: { expanded?: boolean } = {},
+): SearchHit[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  const phrase = terms.join(' ');
+  const hits: SearchHit[] = [];
+
+  for (const turn of parseSession(content).turns) {
+    const text = proseOf(turn.content, options.expanded ?? false)
+      .replace(/\s+/g, ' ')
+      .trim();
+    const lower = text.toLowerCase();
+
+    const counts = terms.map((term) => countOf(lower, term));
+    if (counts.some((count) => count === 0)) continue;
+
+    const phraseAt = terms.length > 1 ? lower.indexOf(phrase) : -1;
+    const score = counts.reduce((sum, count) => sum + count, 0) + (phraseAt !== -1 ? 10 : 0);
+
+    hits.push({
+      turn: turn.number,
+      role: turn.role,
+      score,
+      snippet: snippetAt(text, phraseAt !== -1 ? phraseAt : lower.indexOf(terms[0]!)),
+    });
+  }
+
+  return hits;
+}
@@ -1,97 +1,74 @@
 import { appendFileSync } from 'node:fs';
-import type { Session, Turn } from '../types.ts';
+import type { ContentBlock, Message, Session, Turn } from '../types.ts';
+import {
+  DOCUMENT_MARKER,
+  IMAGE_MARKER,
+  loadDocument,
+  loadImage,
+  MAX_DOCUMENTS,
+  MAX_IMAGES,
+} from './attachments.ts';
+import { applySessionSettings, type Config, loadConfig } from './config.ts';
 import { AskError } from './errors.ts';
 import { expandReferences } from './expand.ts';
+import type { IgnoredPath } from './ignore.ts';
 import { output } from './output.ts';
 import { parseSession } from './parser.ts';
+import { findExcludedRegions, findRegionAt } from './regions.ts';
 
 export { parseSession };
 
+// ~1024 tokens, the smallest prefix the API will cache
+const MIN_CACHE_CHARS = 4096;
+
+const EXPANDED_MARKER = /^<!-- [a-z]+: .+ -->$/m;
+
+export const INTERRUPTED_MARKER = '[Interrupted]';
+
+// An interrupted answer at the end of the file, with the empty human turn after it
+const INTERRUPTED_TAIL = /\n?\[Interrupted\]\n`{4}\s*(# \[\d+\] Human\s*)?$/;
+
 export interface ExpandedContent {
-  type: 'directory' | 'file' | 'url';
+  type: 'directory' | 'glob' | 'file' | 'url' | 'document' | 'git';
   pattern: string;
   startLine: number;
   endLine: number;
   isStandalone: boolean;
 }
 
+// Marker tag for each kind of expanded block
+const EXPANSION_TAGS: Record<string, ExpandedContent['type']> = {
+  dir: 'directory',
+  glob: 'glob',
+  url: 'url',
+  file: 'file',
+  document: 'document',
+  git: 'git',
+};
+
 export async function findAllExpandedContent(content: string): Promise<ExpandedContent[]> {
   const expansions: ExpandedContent[] = [];
   const lines = content.split('\n');
 
-  // Find directory markers
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]!;
-    const dirMatch = line.match(/^<!-- dir: (.+) -->$/);
-    if (dirMatch) {
-      const pattern = dirMatch[1]!;
-      const startLine = i;
-      for (let j = i + 1; j < lines.length; j++) {
-        if (lines[j]?.trim() === '<!-- /dir -->') {
-          expansions.push({
-            type: 'directory',
-            pattern,
-            startLine,
-            endLine: j,
-            isStandalone: true,
-          });
-          i = j;
-          break;
-        }
-      }
-    }
-  }
-
-  // Find URL markers
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]!;
-    const urlMatch = line.match(/^<!-- url: (.+) -->$/);
-    if (urlMatch) {
-      const url = urlMatch[1]!;
-      const startLine = i;
-      for (let j = i + 1; j < lines.length; j++) {
-        if (lines[j]?.trim() === '<!-- /url -->') {
-          expansions.push({
-            type: 'url',
-            pattern: url,
-            startLine,
-            endLine: j,
-            isStandalone: true,
-          });
-          i = j;
-          break;
-        }
-      }
-    }
-  }
-
-  // Find file markers (standalone, not inside dir blocks)
-  const dirRanges = expansions
-    .filter((e) => e.type === 'directory')
-    .map((e) => ({ start: e.startLine, end: e.endLine }));
-
+  // Blocks are found in line order; files inside a dir block are skipped with it
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]!;
-    const fileMatch = line.match(/^<!-- file: (.+) -->$/);
-    if (fileMatch) {
-      // Check if inside a directory block
-      const insideDir = dirRanges.some((r) => i > r.start && i < r.end);
-      if (insideDir) continue;
-
-      const filePath = fileMatch[1]!;
-      const startLine = i;
-      for (let j = i + 1; j < lines.length; j++) {
-        if (lines[j]?.trim() === '<!-- /file -->') {
-          expansions.push({
-            type: 'file',
-            pattern: filePath,
-            startLine,
-            endLine: j,
-            isStandalone: true,
-          });
-          i = j;
-          break;
-        }
+    const match = lines[i]!.match(/^<!-- ([a-z]+): (.+) -->$/);
+    const type = match ? EXPANSION_TAGS[match[1]!] : undefined;
+    if (!match || !type) continue;
+
+    const closing = `<!-- /${match[1]} -->`;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j]?.trim() === closing) {
+        expansions.push({
+          type,
+          // Git blocks record the command; the reference needs its prefix back
+          pattern: type === 'git' ? `git:${match[2]}` : match[2]!,
+          startLine: i,
+          endLine: j,
+          isStandalone: true,
+        });
+        i = j;
+        break;
       }
     }
   }
@@ -101,27 +78,32 @@ export async function findAllExpandedContent(content: string): Promise<ExpandedC
 
 export async function refreshAllContent(
   sessionPath: string,
-): Promise<{ refreshed: boolean; fileCount: number }> {
+): Promise<{ refreshed: boolean; fileCount: number; ignored: IgnoredPath[] }> {
   const content = await Bun.file(sessionPath).text();
+  const config = applySessionSettings(await loadConfig(), parseSession(content).frontMatter);
+
+  // Ignore files may leave a new reference with nothing to expand
+  const ignored: IgnoredPath[] = [];
 
   // Check for unexpanded references first
   const unexpandedPattern = /\[\[([^\]​]+)\]\]/g;
   if (unexpandedPattern.test(content)) {
-    const { expanded, fileCount } = await expandReferences(content);
+    const { expanded, fileCount, ...result } = await expandReferences(content, config);
+    ignored.push(...result.ignored);
     if (fileCount > 0) {
       const tmpPath = `${sessionPath}.tmp-${Date.now()}`;
       await Bun.write(tmpPath, expanded);
       const fs = await import('node:fs/promises');
       await fs.rename(tmpPath, sessionPath);
 
-      return { refreshed: true, fileCount };
+      return { refreshed: true, fileCount, ignored };
     }
   }
 
   const expansions = await findAllExpandedContent(content);
 
   if (expansions.length === 0) {
-    return { refreshed: false, fileCount: 0 };
+    return { refreshed: false, fileCount: 0, ignored };
   }
 
   let totalFiles = 0;
@@ -132,66 +114,33 @@ export async function refreshAllContent(
     try {
       output.refreshStart(expansion.pattern);
 
-      if (expansion.type === 'directory') {
-        const { expanded, fileCount } = await expandReferences(`[[${expansion.pattern}]]`);
+      const result = await expandReferences(`[[${expansion.pattern}]]`, config);
+      const { expanded, fileCount } = result;
+      ignored.push(...result.ignored);
 
-        const expandedLines = expanded.split('\n');
-        const startIdx = expandedLines.findIndex((line) => line.includes('<!-- dir:'));
-        const endIdx = expandedLines.findIndex((line) => line.trim() === '<!-- /dir -->');
+      // A URL with web access off stays as it is
+      if (fileCount === 0 && expansion.type === 'url') continue;
 
-        if (startIdx !== -1 && endIdx !== -1) {
-          const newContent = expandedLines.slice(startIdx, endIdx + 1);
+      const tag = lines[expansion.startLine]!.match(/^<!-- ([a-z]+):/)![1]!;
+      const expandedLines = expanded.split('\n');
+      const startIdx = expandedLines.findIndex((line) => line.includes(`<!-- ${tag}:`));
+      const endIdx = expandedLines.findIndex((line) => line.trim() === `<!-- /${tag} -->`);
 
-          lines.splice(
-            expansion.startLine,
-            expansion.endLine - expansion.startLine + 1,
-            ...newContent,
-          );
+      if (startIdx !== -1 && endIdx !== -1) {
+        const newContent = expandedLines.slice(startIdx, endIdx + 1);
 
+        lines.splice(
+          expansion.startLine,
+          expansion.endLine - expansion.startLine + 1,
+          ...newContent,
+        );
+
+        if (expansion.type === 'directory' || expansion.type === 'glob') {
           output.refreshSuccess(expansion.pattern, `${fileCount} files`);
           totalFiles += fileCount;
-        }
-      } else if (expansion.type === 'url') {
-        const { expanded, fileCount } = await expandReferences(`[[${expansion.pattern}]]`);
-
-        if (fileCount > 0) {
-          const expandedLines = expanded.split('\n');
-          const startIdx = expandedLines.findIndex((line) => line.includes('<!-- url:'));
-          const endIdx = expandedLines.findIndex((line) => line.trim() === '<!-- /url -->');
-
-          if (startIdx !== -1 && endIdx !== -1) {
-            const newContent = expandedLines.slice(startIdx, endIdx + 1);
-
-            lines.splice(
-              expansion.startLine,
-              expansion.endLine - expansion.startLine + 1,
-              ...newContent,
-            );
-
-            output.refreshSuccess(expansion.pattern);
-            totalFiles += 1;
-          }
-        }
-      } else if (expansion.type === 'file') {
-        const { expanded, fileCount } = await expandReferences(`[[${expansion.pattern}]]`);
-
-        if (fileCount > 0) {
-          const expandedLines = expanded.split('\n');
-          const startIdx = expandedLines.findIndex((line) => line.includes('<!-- file:'));
-          const endIdx = expandedLines.findIndex((line) => line.trim() === '<!-- /file -->');
-
-          if (startIdx !== -1 && endIdx !== -1) {
-            const newContent = expandedLines.slice(startIdx, endIdx + 1);
-
-            lines.splice(
-              expansion.startLine,
-              expansion.endLine - expansion.startLine + 1,
-              ...newContent,
-            );
-
-            output.refreshSuccess(expansion.pattern);
-            totalFiles += 1;
-          }
+        } else {
+          output.refreshSuccess(expansion.pattern);
+          totalFiles += 1;
         }
       }
     } catch {
@@ -206,7 +155,7 @@ export async function refreshAllContent(
   const fs = await import('node:fs/promises');
   await fs.rename(tmpPath, sessionPath);
 
-  return { refreshed: true, fileCount: totalFiles };
+  return { refreshed: true, fileCount: totalFiles, ignored };
 }
 
 export async function readSession(path: string): Promise<Session> {
@@ -218,21 +167,22 @@ export async function readSession(path: string): Promise<Session> {
 export async function expandAndSaveSession(
   path: string,
   session: Session,
-): Promise<{ expanded: boolean; fileCount: number }> {
+  config?: Config,
+): Promise<{ expanded: boolean; fileCount: number; ignored: IgnoredPath[] }> {
   const lastHumanTurn = session.turns[session.lastHumanTurnIndex];
   if (!lastHumanTurn) {
-    return { expanded: false, fileCount: 0 };
+    return { expanded: false, fileCount: 0, ignored: [] };
   }
 
   const pattern = /\[\[([^\]​]+)\]\]/g;
   if (!pattern.test(lastHumanTurn.content)) {
-    return { expanded: false, fileCount: 0 };
+    return { expanded: false, fileCount: 0, ignored: [] };
   }
 
-  const { expanded, fileCount } = await expandReferences(lastHumanTurn.content);
+  const { expanded, fileCount, ignored } = await expandReferences(lastHumanTurn.content, config);
 
   if (fileCount === 0) {
-    return { expanded: false, fileCount: 0 };
+    return { expanded: false, fileCount: 0, ignored };
   }
 
   const fullContent = await Bun.file(path).text();
@@ -261,7 +211,7 @@ export async function expandAndSaveSession(
   const fs = await import('node:fs/promises');
   await fs.rename(tmpPath, path);
 
-  return { expanded: true, fileCount };
+  return { expanded: true, fileCount, ignored };
 }
 
 export function validateSession(session: Session): void {
@@ -284,18 +234,46 @@ export function validateSession(session: Session): void {
     );
   }
 
+  if (lastHumanTurn.skip) {
+    throw new AskError(
+      `Turn ${lastHumanTurn.number} is marked ask:skip`,
+      'Remove the marker to ask this question',
+    );
+  }
+
   const lastTurn = session.turns[session.turns.length - 1];
   if (lastTurn && lastTurn.role === 'AI' && lastTurn.number > lastHumanTurn.number) {
     throw new AskError(
       `Turn ${lastHumanTurn.number} already has a response`,
-      'Add a new human turn to continue',
+      "Add a new human turn to continue, or run 'ask retry' for another answer",
     );
   }
 }
 
+/**
+ * The AI turn cut off by Ctrl-C, if the session ends with one and
+ * nothing has been written after it
+ */
+export function findInterruptedTurn(session: Session): Turn | undefined {
+  const turns = [...session.turns];
+
+  const last = turns[turns.length - 1];
+  if (last?.role === 'Human' && !last.content.trim()) {
+    turns.pop();
+  }
+
+  const turn = turns[turns.length - 1];
+  if (turn?.role === 'AI' && turn.content.endsWith(INTERRUPTED_MARKER)) {
+    return turn;
+  }
+
+  return undefined;
+}
+
 export class SessionWriter {
   private headerWritten = false;
   private contentWritten = false;
+  private section: 'none' | 'thinking' | 'answer' = 'none';
 
   private constructor(
     private sessionPath: string,
@@ -306,16 +284,83 @@ export class SessionWriter {
     return new SessionWriter(path, turnNumber);
   }
 
+  /**
+   * Write into an AI turn whose header is already in the file
+   */
+  static reopen(path: string, turnNumber: number): SessionWriter {
+    const writer = new SessionWriter(path, turnNumber);
+    writer.headerWritten = true;
+    return writer;
+  }
+
+  /**
+   * Reopen an interrupted answer: drop the marker, the closing fence and
+   * the empty human turn so new text continues the same answer
+   */
+  static async resume(path: string, turnNumber: number): Promise<SessionWriter> {
+    const content = await Bun.file(path).text();
+    const match = content.match(INTERRUPTED_TAIL);
+
+    if (!match) {
+      throw new AskError(
+        `Turn ${turnNumber} can't be resumed`,
+        `Its answer must end with ${INTERRUPTED_MARKER} and nothing may follow it`,
+      );
+    }
+
+    await Bun.write(path, content.slice(0, match.index));
+
+    const writer = SessionWriter.reopen(path, turnNumber);
+    writer.contentWritten = true;
+    writer.section = 'answer';
+    return writer;
+  }
+
   private async writeHeader(): Promise<void> {
     if (this.headerWritten) return;
 
     const content = await Bun.file(this.sessionPath).text();
-    const header = `\n\n# [${this.turnNumber}] AI\n\n\`\`\`\`markdown\n`;
+    const header = `\n\n# [${this.turnNumber}] AI\n\n`;
 
     await Bun.write(this.sessionPath, content.trimEnd() + header);
     this.headerWritten = true;
   }
 
+  /**
+   * Thinking goes in a collapsed block above the answer fence
+   */
+  private openSection(section: 'thinking' | 'answer'): void {
+    if (this.section === section) return;
+
+    let opening = '';
+
+    if (this.section === 'thinking') {
+      opening += '\n\n</details>\n\n';
+    }
+
+    opening +=
+      section === 'thinking' ? '<details>\n<summary>Thinking</summary>\n\n' : '````markdown\n';
+
+    appendFileSync(this.sessionPath, opening);
+    this.section = section;
+  }
+
+  /**
+   * Thinking that arrives once the answer is open (after a resume, say)
+   * is dropped: a block there would land inside the answer fence
+   */
+  async writeThinking(chunk: string): Promise<void> {
+    if (!chunk || this.section === 'answer') return;
+
+    if (!this.headerWritten) {
+      await this.writeHeader();
+    }
+
+    this.openSection('thinking');
+    appendFileSync(this.sessionPath, chunk);
+    this.contentWritten = true;
+  }
+
   async write(chunk: string): Promise<void> {
     if (!chunk) return;
 
@@ -323,6 +368,7 @@ export class SessionWriter {
       await this.writeHeader();
     }
 
+    this.openSection('answer');
     appendFileSync(this.sessionPath, chunk);
     this.contentWritten = true;
   }
@@ -330,10 +376,12 @@ export class SessionWriter {
   async end(interrupted: boolean = false): Promise<void> {
     if (!this.headerWritten) return;
 
+    this.openSection('answer');
+
     let closing = '';
 
     if (interrupted && this.contentWritten) {
-      closing += '\n[Interrupted]';
+      closing += `\n${INTERRUPTED_MARKER}`;
     }
 
     closing += `\n\`\`\`\`\n\n# [${this.turnNumber + 1}] Human\n\n`;
@@ -342,13 +390,175 @@ export class SessionWriter {
   }
 }
 
-export function turnsToMessages(turns: Turn[]): import('../types.ts').Message[] {
-  return turns.map((turn) => ({
-    role: turn.role === 'Human' ? 'user' : 'assistant',
-    content: [
-      {
-        text: turn.content,
-      },
-    ],
-  }));
+/**
+ * Indexes of turns in exchanges carrying a marker. A question and its
+ * answer go together, so a marker on either covers both and the roles
+ * keep alternating.
+ */
+export function markedExchanges(turns: Turn[], marker: 'skip' | 'pin'): Set<number> {
+  const marked = new Set<number>();
+
+  turns.forEach((turn, i) => {
+    if (!turn[marker]) return;
+
+    marked.add(i);
+    if (turn.role === 'Human' && turns[i + 1]?.role === 'AI') marked.add(i + 1);
+    if (turn.role === 'AI' && turns[i - 1]?.role === 'Human') marked.add(i - 1);
+  });
+
+  return marked;
+}
+
+/**
+ * The turns sent to the model: everything but skipped exchanges
+ */
+export function contextTurns(turns: Turn[]): Turn[] {
+  const skipped = markedExchanges(turns, 'skip');
+  return turns.filter((_, i) => !skipped.has(i));
+}
+
+export async function turnsToMessages(
+  allTurns: Turn[],
+  options: { cache?: boolean } = {},
+): Promise<Message[]> {
+  const turns = contextTurns(allTurns);
+  const messages: Message[] = [];
+
+  for (const turn of turns) {
+    messages.push({
+      role: turn.role === 'Human' ? 'user' : 'assistant',
+      content:
+        turn.role === 'Human' ? await toContentBlocks(turn.content) : [{ text: turn.content }],
+    });
+  }
+
+  leaveOutOldAttachments(messages);
+
+  // Document names must be unique within a request
+  const names = new Set<string>();
+  for (const block of messages.flatMap((message) => message.content)) {
+    if (!('document' in block)) continue;
+    const { name } = block.document;
+    for (let n = 2; names.has(block.document.name); n++) {
+      block.document.name = `${name} (${n})`;
+    }
+    names.add(block.document.name);
+  }
+
+  if (options.cache) {
+    addCachePoints(messages, turns);
+  }
+
+  return messages;
+}
+
+/**
+ * Keep the newest images and documents a request can hold. Older ones
+ * become a note (their markers stay in the text), so a session doesn't
+ * stop working once it has collected more than the limit; only the last
+ * question going over it is an error.
+ */
+function leaveOutOldAttachments(messages: Message[]): void {
+  const limits = [
+    { kind: 'image', max: MAX_IMAGES, plural: 'images' },
+    { kind: 'document', max: MAX_DOCUMENTS, plural: 'documents' },
+  ] as const;
+
+  for (const { kind, max, plural } of limits) {
+    const last = messages.at(-1)?.content.filter((block) => kind in block).length ?? 0;
+    if (last > max) {
+      throw new AskError(
+        `Too many ${plural} (${last})`,
+        `A request can include at most ${max} ${plural}`,
+      );
+    }
+
+    let count = 0;
+    for (const message of messages.toReversed()) {
+      message.content = message.content.map((block) =>
+        kind in block && ++count > max
+          ? { text: `(${kind} left out: a request can include at most ${max} ${plural})` }
+          : block,
+      );
+    }
+  }
+}
+
+/**
+ * Split a human turn into text, image and document blocks at image
+ * markers and document blocks outside code fences and expanded content
+ */
+async function toContentBlocks(content: string): Promise<ContentBlock[]> {
+  const lines = content.split('\n');
+  const regions = findExcludedRegions(lines);
+  const blocks: ContentBlock[] = [];
+  let text: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const region = findRegionAt(i, regions);
+
+    // The markers stay in the text so the model knows which file it sees
+    if (region?.type === 'expanded-document' && region.start === i) {
+      text.push(...lines.slice(i, region.end + 1));
+      blocks.push({ text: text.join('\n').trim() });
+      text = [];
+
+      const path = line.match(DOCUMENT_MARKER)![1]!;
+      const { format, name, bytes } = await loadDocument(path);
+      blocks.push({ document: { format, name, source: { bytes } } });
+
+      i = region.end;
+      continue;
+    }
+
+    text.push(line);
+
+    const match = region ? null : line.match(IMAGE_MARKER);
+    if (match) {
+      blocks.push({ text: text.join('\n').trim() });
+      text = [];
+
+      const { format, bytes } = await loadImage(match[1]!);
+      blocks.push({ image: { format, source: { bytes } } });
+    }
+  }
+
+  const rest = text.join('\n').trim();
+  if (rest || blocks.length === 0) {
+    blocks.push({ text: rest });
+  }
+
+  return blocks;
+}
+
+/**
+ * Mark stable prefixes for prompt caching: the latest earlier turn with
+ * expanded content, everything before the newest turn, and the whole
+ * conversation so the next request can read it back.
+ */
+function addCachePoints(messages: Message[], turns: Turn[]): void {
+  const last = messages.length - 1;
+  const candidates = new Set<number>();
+
+  for (let i = last - 1; i >= 0; i--) {
+    if (EXPANDED_MARKER.test(turns[i]!.content)) {
+      candidates.add(i);
+      break;
+    }
+  }
+
+  if (last >= 1) candidates.add(last - 1);
+  candidates.add(last);
+
+  let chars = 0;
+
+  for (let i = 0; i <= last; i++) {
+    chars += turns[i]!.content.length;
+
+    // Prefixes below the minimum cacheable size are not cached
+    if (candidates.has(i) && chars >= MIN_CACHE_CHARS) {
+      messages[i]!.content.push({ cachePoint: { type: 'default' } });
+    }
+  }
 }
@@ -0,0 +1,127 @@
+import { AskError } from './errors.ts';
+import { withRetry } from './retry.ts';
+
+const TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface SseEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * POST a JSON body and return the streaming response.
+ * The timeout covers the wait for response headers, not the stream itself.
+ */
+export async function postStream(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  abortSignal?: AbortSignal,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  // Link external abort signal to our controller
+  if (abortSignal) {
+    if (abortSignal.aborted) {
+      controller.abort();
+    } else {
+      abortSignal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+  }
+
+  try {
+    return await withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await httpError(response);
+      }
+
+      return response;
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * GET a JSON document
+ */
+export async function getJson<T>(url: string, headers: Record<string, string>): Promise<T> {
+  const response = await withRetry(async () => {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw await httpError(response);
+    }
+    return response;
+  });
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Parse a server-sent event stream into events
+ */
+export async function* readEvents(response: Response): AsyncGenerator<SseEvent> {
+  if (!response.body) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+
+      if (line === '') {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+        event = undefined;
+        data = [];
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      }
+
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+async function httpError(response: Response): Promise<Error> {
+  let detail = response.statusText;
+
+  try {
+    const body = await response.text();
+    const parsed = JSON.parse(body);
+    detail = parsed?.error?.message ?? parsed?.message ?? body;
+  } catch {
+    // Keep status text
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return new AskError(
+      `Authentication failed (${response.status}): ${detail}`,
+      'Check the API key for the configured provider',
+    );
+  }
+
+  return new Error(`${response.status} ${detail}`);
+}
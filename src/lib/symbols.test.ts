@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { findSymbol } from './symbols.ts';
+
+describe('findSymbol', () => {
+  const typescript = [
+    "import { x } from './x.ts';",
+    '',
+    '/**',
+    ' * Adds one',
+    ' */',
+    'export function inc(n: number): number {',
+    "  const s = '}';",
+    '  return n + 1;',
+    '}',
+    '',
+    'export type Mode =',
+    "  | 'a'",
+    "  | 'b';",
+    '',
+    'export class Cache {',
+    '  private size = 0;',
+    '',
+    '  // Drop everything',
+    '  clear(): void {',
+    '    this.size = 0;',
+    '  }',
+    '}',
+  ].join('\n');
+
+  test('finds a function with its doc comment', () => {
+    const slice = findSymbol(typescript, 'inc', 'a.ts');
+    expect(slice.start).toBe(3);
+    expect(slice.end).toBe(9);
+    expect(slice.content.endsWith('  return n + 1;\n}')).toBe(true);
+  });
+
+  test('follows a type across continuation lines', () => {
+    expect(findSymbol(typescript, 'Mode', 'a.ts').content).toBe(
+      "export type Mode =\n  | 'a'\n  | 'b';",
+    );
+  });
+
+  test('finds a class member by qualified name', () => {
+    const slice = findSymbol(typescript, 'Cache.clear', 'a.ts');
+    expect(slice.content).toBe('  // Drop everything\n  clear(): void {\n    this.size = 0;\n  }');
+  });
+
+  test('finds Python, Go and Rust declarations', () => {
+    const python = [
+      'class Pool:',
+      '    @property',
+      '    def size(self):',
+      '        """Open connections"""',
+      '        return len(self.conns)',
+      '',
+      '    def close(self):',
+      '        pass',
+    ].join('\n');
+    expect(findSymbol(python, 'Pool.size', 'pool.py').content).toBe(
+      '    @property\n    def size(self):\n        """Open connections"""\n        return len(self.conns)',
+    );
+
+    const go = [
+      '// Start listens',
+      'func (s *Server) Start() error {',
+      '\treturn nil',
+      '}',
+      '',
+      'type Port int',
+    ].join('\n');
+    expect(findSymbol(go, 'Server.Start', 'server.go')).toMatchObject({ start: 1, end: 4 });
+    expect(findSymbol(go, 'Port', 'server.go').content).toBe('type Port int');
+
+    const rust = [
+      "impl<'a> Parser<'a> {",
+      '    /// Next token',
+      "    pub fn next(&mut self) -> Option<&'a str> {",
+      '        None',
+      '    }',
+      '}',
+    ].join('\n');
+    expect(findSymbol(rust, 'Parser.next', 'lib.rs')).toMatchObject({ start: 2, end: 5 });
+  });
+
+  test('reports missing symbols and unsupported languages', () => {
+    expect(() => findSymbol(typescript, 'missing', 'a.ts')).toThrow('Symbol not found: missing');
+    expect(() => findSymbol('x', 'x', 'a.txt')).toThrow("Symbols aren't supported");
+  });
+});
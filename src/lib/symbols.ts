@@ -0,0 +1,240 @@
+import type { FileSlice } from './anchor.ts';
+import { languageFor } from './languages.ts';
+
+/**
+ * Find a declaration by name without a real parser: a regex for where each
+ * language declares things, and a rule for where the declaration ends.
+ * `Class.method` (or `Type.Method` in Go, `Type.method` for a Rust impl)
+ * looks for a member inside the outer declaration. The doc comment,
+ * decorators and attributes directly above are included.
+ */
+
+interface SymbolSyntax {
+  declaration: (name: string) => RegExp;
+  // Declarations whose body holds members, and how a member is declared
+  container: (name: string) => RegExp;
+  member: (name: string) => RegExp;
+  end: (lines: string[], start: number) => number;
+  // Lines above a declaration that belong to it
+  docs: RegExp;
+  // A qualified name the language declares in one place, like a Go method
+  qualified?: (parts: string[]) => RegExp | undefined;
+}
+
+// A line ending like this continues on the next
+const CONTINUES = /(?:[=,([{|&+\-*/.:?]|=>)\s*$/;
+
+// A next line starting like this continues the previous
+const CONTINUED = /^\s*(?:[|&.?:{]|=>|where\b)/;
+
+const escapeName = (name: string) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function bracketDepth(code: string): number {
+  let depth = 0;
+  for (const char of code) {
+    if ('{(['.includes(char)) depth++;
+    if ('})]'.includes(char)) depth--;
+  }
+  return depth;
+}
+
+/**
+ * End of a declaration in a language with braces: the first line that
+ * closes every bracket and doesn't carry on to the next
+ */
+function braceEnd(strings: RegExp) {
+  return (lines: string[], start: number): number => {
+    let depth = 0;
+    let inComment = false;
+
+    for (let i = start; i < lines.length; i++) {
+      let code = lines[i]!;
+
+      if (inComment) {
+        const close = code.indexOf('*/');
+        if (close === -1) continue;
+        code = code.slice(close + 2);
+        inComment = false;
+      }
+
+      code = code
+        .replace(strings, '""')
+        .replace(/\/\*.*?\*\//g, '')
+        .replace(/\/\/.*$/, '');
+
+      const open = code.indexOf('/*');
+      if (open !== -1) {
+        code = code.slice(0, open);
+        inComment = true;
+      }
+
+      depth += bracketDepth(code);
+      if (depth <= 0 && !CONTINUES.test(code) && !CONTINUED.test(lines[i + 1] ?? '')) {
+        return i;
+      }
+    }
+
+    return lines.length - 1;
+  };
+}
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+/**
+ * End of a Python declaration: the header up to its colon, then every
+ * line indented deeper. An assignment ends when its brackets close.
+ */
+function indentEnd(lines: string[], start: number): number {
+  const isBlock = /^\s*(?:async\s+)?(?:def|class)\b/.test(lines[start]!);
+  let depth = 0;
+  let header = start;
+
+  for (; header < lines.length; header++) {
+    const code = lines[header]!.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '""').replace(
+      /#.*$/,
+      '',
+    );
+    depth += bracketDepth(code);
+    if (depth > 0) continue;
+    if (!isBlock || /:\s*$/.test(code)) break;
+  }
+
+  if (!isBlock) return Math.min(header, lines.length - 1);
+
+  const indent = indentOf(lines[start]!);
+  let end = header;
+  for (let i = header + 1; i < lines.length; i++) {
+    if (!lines[i]!.trim()) continue;
+    if (indentOf(lines[i]!) <= indent) break;
+    end = i;
+  }
+
+  return end;
+}
+
+const C_DOCS = /^\s*(?:\/\/|\/\*|\*|@)/;
+
+const TYPESCRIPT: SymbolSyntax = {
+  declaration: (name) =>
+    new RegExp(
+      `^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?(?:async\\s+)?(?:function\\*?|class|interface|type|const\\s+enum|enum|const|let|var|namespace)\\s+${name}\\b`,
+    ),
+  container: (name) => TYPESCRIPT.declaration(name),
+  member: (name) =>
+    new RegExp(
+      `^\\s+(?:(?:public|private|protected|static|readonly|async|abstract|override|declare|get|set)\\s+)*\\*?${name}\\??\\s*[(<:=]`,
+    ),
+  end: braceEnd(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`/g),
+  docs: C_DOCS,
+};
+
+const PYTHON: SymbolSyntax = {
+  declaration: (name) =>
+    new RegExp(`^\\s*(?:async\\s+)?(?:def|class)\\s+${name}\\b|^${name}\\s*(?::[^=]+)?=`),
+  container: (name) => new RegExp(`^\\s*class\\s+${name}\\b`),
+  member: (name) => new RegExp(`^\\s+(?:async\\s+)?def\\s+${name}\\b|^\\s+${name}\\s*(?::[^=]+)?=`),
+  end: indentEnd,
+  docs: /^\s*[#@]/,
+};
+
+const GO: SymbolSyntax = {
+  declaration: (name) => new RegExp(`^(?:func|type|var|const)\\s+${name}\\b`),
+  container: (name) => new RegExp(`^type\\s+${name}\\b`),
+  member: (name) => new RegExp(`^\\s+${name}\\b`),
+  end: braceEnd(/"(?:[^"\\]|\\.)*"|`[^`]*`|'(?:[^'\\]|\\.)+'/g),
+  docs: /^\s*\/\//,
+  // Methods are declared outside their type, with a receiver
+  qualified: (parts) =>
+    parts.length === 2
+      ? new RegExp(`^func\\s+\\([^)]*?\\b${parts[0]}(?:\\[[^\\]]*\\])?\\)\\s+${parts[1]}\\b`)
+      : undefined,
+};
+
+const RUST: SymbolSyntax = {
+  declaration: (name) =>
+    new RegExp(
+      `^\\s*(?:pub(?:\\([^)]*\\))?\\s+)?(?:(?:async|const|unsafe|extern(?:\\s+"[^"]*")?)\\s+)*(?:fn|struct|enum|trait|type|const|static|mod|union)\\s+${name}\\b|^\\s*macro_rules!\\s*${name}\\b`,
+    ),
+  container: (name) =>
+    new RegExp(
+      `^\\s*(?:unsafe\\s+)?impl\\b[^{;]*?\\b${name}\\b|^\\s*(?:pub(?:\\([^)]*\\))?\\s+)?(?:trait|mod)\\s+${name}\\b`,
+    ),
+  member: (name) => RUST.declaration(name),
+  // Char literals only, so lifetimes like 'a aren't read as strings
+  end: braceEnd(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)'/g),
+  docs: /^\s*(?:\/\/|#\[)/,
+};
+
+const SYNTAX: Record<string, SymbolSyntax> = {
+  typescript: TYPESCRIPT,
+  javascript: TYPESCRIPT,
+  python: PYTHON,
+  go: GO,
+  rust: RUST,
+};
+
+/**
+ * Lines matching a pattern within a range, least indented first so a
+ * top-level declaration wins over a nested one with the same name
+ */
+function matchesIn(lines: string[], pattern: RegExp, from: number, to: number): number[] {
+  const found: number[] = [];
+  for (let i = from; i <= to; i++) {
+    if (pattern.test(lines[i]!)) found.push(i);
+  }
+  return found.sort((a, b) => indentOf(lines[a]!) - indentOf(lines[b]!) || a - b);
+}
+
+function locate(lines: string[], parts: string[], syntax: SymbolSyntax): number | undefined {
+  const qualified = syntax.qualified?.(parts);
+  if (qualified) {
+    const [match] = matchesIn(lines, qualified, 0, lines.length - 1);
+    if (match !== undefined) return match;
+  }
+
+  if (parts.length === 1) {
+    return matchesIn(lines, syntax.declaration(parts[0]!), 0, lines.length - 1)[0];
+  }
+
+  // Look for the rest of the name in each declaration of the outer part
+  const outer = parts[0]!;
+  const rest = parts.slice(1);
+  for (const start of matchesIn(lines, syntax.container(outer), 0, lines.length - 1)) {
+    const end = syntax.end(lines, start);
+    const inner = lines.slice(start + 1, end + 1);
+    const found =
+      rest.length === 1
+        ? matchesIn(inner, syntax.member(rest[0]!), 0, inner.length - 1)[0]
+        : locate(inner, rest, syntax);
+    if (found !== undefined) return start + 1 + found;
+  }
+
+  return undefined;
+}
+
+export function findSymbol(content: string, name: string, path: string): FileSlice {
+  const language = languageFor(path);
+  const syntax = SYNTAX[language];
+
+  if (!syntax) {
+    throw new Error(
+      `Symbols aren't supported for ${language || 'this file type'}; use #L<start>-<end>`,
+    );
+  }
+
+  const lines = content.split('\n');
+  const parts = name.split('.').map(escapeName);
+  const start = locate(lines, parts, syntax);
+
+  if (start === undefined) {
+    throw new Error(`Symbol not found: ${name}`);
+  }
+
+  let first = start;
+  while (first > 0 && syntax.docs.test(lines[first - 1]!)) first--;
+
+  const end = syntax.end(lines, start);
+
+  // Line numbers are 1-based and inclusive
+  return { content: lines.slice(first, end + 1).join('\n'), start: first + 1, end: end + 1 };
+}
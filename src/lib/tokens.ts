@@ -1,14 +1,27 @@
 import type { Message } from '../types.ts';
+import { extractDocumentText } from './extract.ts';
+
+// Upper bound for an image scaled to the model's maximum size
+const IMAGE_TOKENS = 1600;
 
 export function estimateTokens(messages: Message[]): number {
   let charCount = 0;
+  let imageCount = 0;
 
   for (const message of messages) {
     for (const content of message.content) {
-      charCount += content.text.length;
+      if ('text' in content) {
+        charCount += content.text.length;
+      } else if ('image' in content) {
+        imageCount++;
+      } else if ('document' in content) {
+        // Lower bound: PDFs also cost tokens for page images
+        const { format, source } = content.document;
+        charCount += extractDocumentText(format, source.bytes).length;
+      }
     }
   }
 
   // ~4 characters per token (reasonable for code and English)
-  return Math.ceil(charCount / 4);
+  return Math.ceil(charCount / 4) + imageCount * IMAGE_TOKENS;
 }
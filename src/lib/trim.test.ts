@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import type { Message, Turn } from '../types.ts';
+import { trimMessages } from './trim.ts';
+
+describe('trimMessages', () => {
+  const file = ['<!-- file: big.ts -->', 'x'.repeat(8000), '<!-- /file -->'].join('\n');
+
+  const session = (overrides: Partial<Turn>[] = []): { turns: Turn[]; messages: Message[] } => {
+    const turns: Turn[] = [
+      { number: 1, role: 'Human', content: `Look at this\n${file}` },
+      { number: 2, role: 'AI', content: 'a'.repeat(400) },
+      { number: 3, role: 'Human', content: 'b'.repeat(400) },
+      { number: 4, role: 'AI', content: 'c'.repeat(400) },
+      { number: 5, role: 'Human', content: `And now?\n${file}` },
+    ].map((turn, i) => ({ ...turn, ...overrides[i] }) as Turn);
+
+    const messages = turns.map(
+      (turn): Message => ({
+        role: turn.role === 'Human' ? 'user' : 'assistant',
+        content: [{ text: turn.content }],
+      }),
+    );
+
+    return { turns, messages };
+  };
+
+  test('elides large expansions in earlier turns, keeping their markers', () => {
+    const { turns, messages } = session();
+    const result = trimMessages(messages, turns, 2600, 'elide');
+
+    expect(result.messages).toHaveLength(5);
+    expect(result.messages[0]?.content).toEqual([
+      {
+        text: 'Look at this\n<!-- file: big.ts -->\n*(omitted to fit the context window)*\n<!-- /file -->',
+      },
+    ]);
+    expect(result.messages[4]).toBe(messages[4]!);
+    expect(result.omitted).toEqual(['big.ts from turn 1 (2,010 tokens)']);
+    expect(result.tokens).toBeLessThanOrEqual(2600);
+  });
+
+  test('drops the oldest exchanges when nothing else fits', () => {
+    const { turns, messages } = session();
+    const result = trimMessages(messages, turns, 2600, 'oldest');
+
+    expect(result.messages.map((message) => message.content)).toEqual([
+      messages[2]!.content,
+      messages[3]!.content,
+      messages[4]!.content,
+    ]);
+    expect(result.omitted).toEqual(['turns 1-2']);
+  });
+
+  test('keeps pinned exchanges and drops later ones instead', () => {
+    const { turns, messages } = session([{ pin: true }]);
+    const result = trimMessages(messages, turns, 4300, 'elide');
+
+    expect(result.messages).toHaveLength(3);
+    expect(result.messages[0]).toBe(messages[0]!);
+    expect(result.omitted).toEqual(['turns 3-4']);
+  });
+
+  test('leaves the newest turn alone even when it is over the budget', () => {
+    const { turns, messages } = session();
+    const result = trimMessages(messages, turns, 100, 'expansions');
+
+    expect(result.messages).toEqual([messages[4]!]);
+    expect(result.tokens).toBeGreaterThan(100);
+  });
+});
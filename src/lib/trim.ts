@@ -0,0 +1,244 @@
+import type { ContentBlock, Message, Turn } from '../types.ts';
+import type { Config } from './config.ts';
+import { AskError } from './errors.ts';
+import { modelInfo } from './models.ts';
+import { output } from './output.ts';
+import { findExcludedRegions } from './regions.ts';
+import { contextTurns, markedExchanges } from './session.ts';
+import { estimateTokens } from './tokens.ts';
+
+export type TrimStrategy = 'oldest' | 'expansions' | 'elide';
+
+export const TRIM_OPTIONS = ['elide', 'expansions', 'oldest', 'off'] as const;
+
+export function isValidTrim(value: unknown): value is Config['trim'] {
+  return typeof value === 'string' && (TRIM_OPTIONS as readonly string[]).includes(value);
+}
+
+// Expansions smaller than this aren't worth eliding
+const ELIDE_MIN_TOKENS = 1000;
+
+const EXPANSION_MARKER = /^<!-- (dir|glob|url|file|document|git): (.+) -->$/;
+
+const ELIDED = '*(omitted to fit the context window)*';
+
+function expansionLabel(marker: string): string {
+  const [, kind, target] = marker.match(EXPANSION_MARKER) ?? [];
+  if (!target) return 'expanded content';
+  return kind === 'git' ? `git:${target}` : target;
+}
+
+/**
+ * Expanded content in an earlier turn: a region of a text block, or a
+ * whole image or document block
+ */
+interface Expansion {
+  message: number;
+  block: number;
+  lines?: { start: number; end: number };
+  label: string;
+  tokens: number;
+}
+
+export interface TrimResult {
+  messages: Message[];
+  tokens: number;
+  // What was left out, for the report
+  omitted: string[];
+}
+
+/**
+ * Shrink messages to `budget` tokens. The strategy runs first; if the
+ * input still doesn't fit, the oldest turns go too. The newest turn and
+ * pinned exchanges are never changed. `turns` are the turns sent, one
+ * per message.
+ */
+export function trimMessages(
+  messages: Message[],
+  turns: Turn[],
+  budget: number,
+  strategy: TrimStrategy,
+): TrimResult {
+  let tokens = estimateTokens(messages);
+  const omitted: string[] = [];
+
+  if (strategy !== 'oldest') {
+    const candidates = findExpansions(messages, turns);
+    const ordered =
+      strategy === 'elide'
+        ? candidates.filter((e) => e.tokens >= ELIDE_MIN_TOKENS).sort((a, b) => b.tokens - a.tokens)
+        : candidates;
+
+    const chosen: Expansion[] = [];
+    for (const expansion of ordered) {
+      if (tokens <= budget) break;
+      chosen.push(expansion);
+      tokens -= expansion.tokens;
+      omitted.push(
+        `${expansion.label} from turn ${turns[expansion.message]!.number} (${output.number(expansion.tokens)} tokens)`,
+      );
+    }
+
+    messages = removeExpansions(messages, chosen, strategy === 'elide');
+    tokens = estimateTokens(messages);
+  }
+
+  // Drop whole exchanges so the roles keep alternating
+  const pinned = markedExchanges(turns, 'pin');
+  const dropped = new Set<number>();
+
+  for (let i = 0; i + 1 < messages.length - 1 && tokens > budget; i += 2) {
+    if (pinned.has(i) || pinned.has(i + 1)) continue;
+
+    dropped.add(i).add(i + 1);
+    tokens = estimateTokens(messages.filter((_, m) => !dropped.has(m)));
+  }
+
+  if (dropped.size > 0) {
+    const numbers = turns.filter((_, m) => dropped.has(m)).map((turn) => turn.number);
+    omitted.unshift(`turns ${formatRanges(numbers)}`);
+    messages = messages.filter((_, m) => !dropped.has(m));
+  }
+
+  return { messages, tokens, omitted };
+}
+
+/**
+ * Trim messages to the model's context window, leaving room for the
+ * answer, and report what was left out
+ */
+export function fitToContext(
+  messages: Message[],
+  turns: Turn[],
+  options: { modelId: string; config: Config; maxTokens: number; systemTokens: number },
+): TrimResult {
+  const { modelId, config, maxTokens, systemTokens } = options;
+  const { contextWindow } = modelInfo(modelId, config);
+  const budget = contextWindow - maxTokens - systemTokens;
+  const tokens = estimateTokens(messages);
+
+  if (budget <= 0) {
+    throw new AskError(
+      `maxTokens (${output.number(maxTokens)}) and the system prompt (~${output.number(systemTokens)} tokens) leave no room for input in the ${output.number(contextWindow)} token context window`,
+      'Lower maxTokens, shorten the system prompt, or use a model with a larger context window',
+    );
+  }
+
+  if (tokens <= budget || config.trim === 'off') {
+    return { messages, tokens, omitted: [] };
+  }
+
+  const result = trimMessages(messages, contextTurns(turns), budget, config.trim);
+
+  if (result.tokens > budget) {
+    throw new AskError(
+      `Input is still ~${output.number(result.tokens)} tokens after trimming, over the ${output.number(budget)} that fit`,
+      'Shorten the last question, unpin turns, lower maxTokens, or use a model with a larger context window',
+    );
+  }
+
+  output.warning(
+    `Input is ~${output.number(tokens)} tokens; trimmed to fit the ${output.number(contextWindow)} token context window`,
+  );
+  for (const item of result.omitted) {
+    output.hint(`  omitted ${item}`);
+  }
+  output.hint("Run 'ask compact' to summarize older turns instead");
+  output.blank();
+
+  return result;
+}
+
+function findExpansions(messages: Message[], turns: Turn[]): Expansion[] {
+  const expansions: Expansion[] = [];
+  const pinned = markedExchanges(turns, 'pin');
+
+  // The newest turn is the question being asked
+  for (let m = 0; m < messages.length - 1; m++) {
+    if (turns[m]?.role !== 'Human' || pinned.has(m)) continue;
+
+    const content = messages[m]!.content;
+    for (let b = 0; b < content.length; b++) {
+      const block = content[b]!;
+      const single = estimateTokens([{ role: 'user', content: [block] }]);
+
+      if ('image' in block) {
+        expansions.push({ message: m, block: b, label: 'an image', tokens: single });
+      } else if ('document' in block) {
+        expansions.push({ message: m, block: b, label: block.document.name, tokens: single });
+      } else if ('text' in block) {
+        const lines = block.text.split('\n');
+        for (const region of findExcludedRegions(lines)) {
+          // Document markers are a few lines; their block follows
+          if (!region.type.startsWith('expanded-') || region.type === 'expanded-document') {
+            continue;
+          }
+
+          const text = lines.slice(region.start, region.end + 1).join('\n');
+          expansions.push({
+            message: m,
+            block: b,
+            lines: { start: region.start, end: region.end },
+            label: expansionLabel(lines[region.start]!),
+            tokens: Math.ceil(text.length / 4),
+          });
+        }
+      }
+    }
+  }
+
+  return expansions;
+}
+
+/**
+ * Copy messages without the chosen expansions; elided text regions keep
+ * their markers around a stub so the model knows what was there
+ */
+function removeExpansions(messages: Message[], chosen: Expansion[], elide: boolean): Message[] {
+  if (chosen.length === 0) return messages;
+
+  return messages.map((message, m) => {
+    const here = chosen.filter((e) => e.message === m);
+    if (here.length === 0) return message;
+
+    const content: ContentBlock[] = [];
+    message.content.forEach((block, b) => {
+      const inBlock = here.filter((e) => e.block === b);
+
+      if (inBlock.length === 0) {
+        content.push(block);
+      } else if ('text' in block) {
+        const lines = block.text.split('\n');
+        // Bottom up so earlier line numbers stay valid
+        for (const { lines: range } of inBlock.sort((x, y) => y.lines!.start - x.lines!.start)) {
+          const { start, end } = range!;
+          const stub = elide ? [lines[start]!, ELIDED, lines[end]!] : [];
+          lines.splice(start, end - start + 1, ...stub);
+        }
+        const text = lines.join('\n').trim();
+        if (text) content.push({ text });
+      }
+    });
+
+    if (!content.some((block) => 'text' in block || 'image' in block || 'document' in block)) {
+      content.unshift({ text: ELIDED });
+    }
+
+    return { ...message, content };
+  });
+}
+
+/**
+ * 1, 2, 3, 4, 7, 8 becomes "1-4, 7-8"
+ */
+function formatRanges(numbers: number[]): string {
+  const ranges: string[] = [];
+
+  for (let i = 0; i < numbers.length; i++) {
+    const start = numbers[i]!;
+    while (numbers[i + 1] === numbers[i]! + 1) i++;
+    ranges.push(start === numbers[i] ? `${start}` : `${start}-${numbers[i]}`);
+  }
+
+  return ranges.join(', ');
+}
@@ -0,0 +1,116 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { TokenUsage } from '../types.ts';
+import { getConfigDir, type Price } from './config.ts';
+
+export interface UsageEntry {
+  timestamp: string;
+  session: string;
+  provider: string;
+  model: string;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  // USD; null when no price matches the model
+  cost: number | null;
+}
+
+export interface UsageSummary {
+  key: string;
+  requests: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;
+}
+
+export function getUsagePath(): string {
+  return path.join(getConfigDir(), 'usage.jsonl');
+}
+
+/**
+ * Find the price whose key is the longest substring of the model ID
+ */
+export function priceFor(modelId: string, prices: Record<string, Price>): Price | undefined {
+  const id = modelId.toLowerCase();
+  const key = Object.keys(prices)
+    .filter((k) => id.includes(k.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+}
+
+export function costOf(usage: TokenUsage, price: Price): number {
+  // Cache reads cost 10% of input and writes 125% unless priced explicitly
+  const cacheRead = price.cacheRead ?? price.input * 0.1;
+  const cacheWrite = price.cacheWrite ?? price.input * 1.25;
+
+  return (
+    (usage.input * price.input +
+      usage.output * price.output +
+      usage.cacheRead * cacheRead +
+      usage.cacheWrite * cacheWrite) /
+    1_000_000
+  );
+}
+
+/**
+ * Append one request to the ledger
+ */
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  await fs.mkdir(getConfigDir(), { recursive: true });
+  await fs.appendFile(getUsagePath(), `${JSON.stringify(entry)}\n`);
+}
+
+export async function loadUsage(): Promise<UsageEntry[]> {
+  let text: string;
+  try {
+    text = await Bun.file(getUsagePath()).text();
+  } catch {
+    return [];
+  }
+
+  const entries: UsageEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as UsageEntry);
+    } catch {
+      // Skip partially written lines
+    }
+  }
+
+  return entries;
+}
+
+export function summarizeUsage(
+  entries: UsageEntry[],
+  keyOf: (entry: UsageEntry) => string,
+): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>();
+
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const summary = groups.get(key) ?? {
+      key,
+      requests: 0,
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      cost: 0,
+    };
+
+    summary.requests++;
+    summary.input += entry.input;
+    summary.output += entry.output;
+    summary.cacheRead += entry.cacheRead;
+    summary.cacheWrite += entry.cacheWrite;
+    summary.cost += entry.cost ?? 0;
+
+    groups.set(key, summary);
+  }
+
+  return Array.from(groups.values());
+}
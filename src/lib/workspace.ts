@@ -0,0 +1,96 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { AskError } from './errors.ts';
+
+/**
+ * Named sessions live in .ask/sessions/<name>.md next to the code they
+ * discuss; .ask/current holds the name commands use by default. The
+ * nearest .ask/sessions up from the working directory is the workspace.
+ */
+
+export const DEFAULT_SESSION = 'session.md';
+
+const WORKSPACE_DIR = '.ask';
+
+const SESSION_NAME = /^[\w][\w.-]*$/;
+
+/**
+ * The directory holding .ask/sessions, if there is one
+ */
+export async function findWorkspace(from: string = process.cwd()): Promise<string | undefined> {
+  let dir = path.resolve(from);
+
+  for (;;) {
+    try {
+      const stat = await fs.stat(path.join(dir, WORKSPACE_DIR, 'sessions'));
+      if (stat.isDirectory()) return dir;
+    } catch {
+      // Not here; keep looking
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+export function sessionsDir(root: string): string {
+  return path.join(root, WORKSPACE_DIR, 'sessions');
+}
+
+/**
+ * Workspace files shown relative to the working directory
+ */
+export function workspaceSessionPath(root: string, name: string): string {
+  return path.relative(process.cwd(), path.join(sessionsDir(root), `${name}.md`));
+}
+
+export function validateSessionName(name: string): void {
+  if (!SESSION_NAME.test(name) || name.endsWith('.md')) {
+    throw new AskError(
+      `Invalid session name: ${name}`,
+      'Use letters, numbers, dots, dashes and underscores, without .md',
+    );
+  }
+}
+
+export async function getCurrentSession(root: string): Promise<string | undefined> {
+  const file = Bun.file(path.join(root, WORKSPACE_DIR, 'current'));
+  if (!(await file.exists())) return undefined;
+
+  const name = (await file.text()).trim();
+  return name || undefined;
+}
+
+export async function setCurrentSession(root: string, name: string): Promise<void> {
+  await Bun.write(path.join(root, WORKSPACE_DIR, 'current'), `${name}\n`);
+}
+
+/**
+ * The file a command works on: a path as given, a workspace session by
+ * name, or with no argument the current workspace session, then
+ * session.md in the working directory
+ */
+export async function resolveSession(arg?: string): Promise<string> {
+  if (arg && (await Bun.file(arg).exists())) {
+    return arg;
+  }
+
+  const root = await findWorkspace();
+
+  if (arg) {
+    if (root && SESSION_NAME.test(arg)) {
+      const named = workspaceSessionPath(root, arg.replace(/\.md$/, ''));
+      if (await Bun.file(named).exists()) return named;
+    }
+    return arg;
+  }
+
+  const current = root && (await getCurrentSession(root));
+  if (root && current) {
+    const named = workspaceSessionPath(root, current);
+    if (await Bun.file(named).exists()) return named;
+  }
+
+  return DEFAULT_SESSION;
+}
@@ -7,33 +7,95 @@ export type Turn = {
   number: number;
   role: 'Human' | 'AI';
   content: string;
+  // Extended thinking recorded with an AI turn; never sent back to the model
+  thinking?: string;
+  // <!-- ask:skip --> keeps the exchange out of the model's context
+  skip?: boolean;
+  // <!-- ask:pin --> keeps the exchange through trimming and compaction
+  pin?: boolean;
 };
 
 export type Session = {
   turns: Turn[];
   lastHumanTurnIndex: number;
+  system?: string;
+  // Raw front matter; validated by applySessionSettings
+  frontMatter: Record<string, unknown>;
 };
 
 // Bedrock types
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp';
+
+export type DocumentFormat = 'pdf' | 'csv' | 'docx' | 'xlsx';
+
+export type ContentBlock =
+  | { text: string }
+  | { image: { format: ImageFormat; source: { bytes: Uint8Array } } }
+  | { document: { format: DocumentFormat; name: string; source: { bytes: Uint8Array } } }
+  | { cachePoint: { type: 'default' } };
+
 export type Message = {
   role: 'user' | 'assistant';
-  content: Array<{
-    text: string;
-  }>;
+  content: ContentBlock[];
+};
+
+export type TokenUsage = {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
 };
 
 export type StreamEvent =
   | { type: 'start' }
   | { type: 'chunk'; text: string; tokens: number }
+  | { type: 'thinking'; text: string; tokens: number }
   | { type: 'error'; error: Error }
-  | { type: 'end'; totalTokens: number };
+  | { type: 'end'; usage: TokenUsage; stopReason?: StopReason };
+
+// Why generation stopped; 'max_tokens' means the answer was cut off
+export type StopReason = 'end_turn' | 'max_tokens' | 'other';
+
+// Provider types
+export type ProviderName = 'bedrock' | 'anthropic' | 'openai';
+
+export type ResolvedModel = {
+  // Identifier sent with requests (inference profile ARN or model ID)
+  id: string;
+  // Underlying model ID, for display
+  modelId: string;
+  // Region or endpoint host serving the model
+  location: string;
+};
+
+export type CompletionRequest = {
+  model: string;
+  messages: Message[];
+  maxTokens: number;
+  temperature: number;
+  system?: string;
+  // Extended thinking budget in tokens
+  thinking?: number;
+  // Cache the system prompt; message cache points are set by turnsToMessages
+  cache?: boolean;
+};
+
+export interface Provider {
+  name: ProviderName;
+  resolveModel(model: string): Promise<ResolvedModel>;
+  listModels(): Promise<string[]>;
+  stream(request: CompletionRequest, abortSignal?: AbortSignal): AsyncGenerator<StreamEvent>;
+}
 
 // Model types
 export type ModelType = 'opus' | 'sonnet' | 'haiku';
 
 export type ModelInfo = {
-  type: ModelType;
+  // Substring of the model ID
   pattern: string;
+  // Input and output tokens together
+  contextWindow: number;
+  // Most output tokens per request
   maxTokens: number;
 };
 